@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo, lazy, Suspense } from 'react';
+import React, { useState, useCallback, useMemo, lazy, Suspense } from 'react';
 import styled from 'styled-components';
 import { useAuth } from './context/AuthContext';
 import AuthProvider from './context/AuthContext';
@@ -7,8 +7,16 @@ import ThemeWrapper from './components/ui/Theme';
 import Desktop from './components/layout/Desktop';
 import { Window } from './components/ui/Window';
 import { Tabs, Tab, TabBody, Button, Fieldset } from 'react95';
-import { useStockMarketSimulation } from './lib/stockMarketSimulation';
+import { useStockMarketSimulation, SimulationSettings, Stock } from './lib/stockMarketSimulation';
+import { priceModels, PriceModelId } from './lib/priceModels';
+import { marketModes, MarketMode } from './lib/historicalMarket';
+import { objectivePresets, DEFAULT_OBJECTIVES } from './lib/objectives';
+import { marginPresets } from './lib/margin';
+import { Scenario, scenarios, getScenario, validateScenario } from './lib/scenarios';
+import { createAccount, restoreAccount } from './lib/playerAccount';
+import { createOpeningLedger } from './lib/taxLots';
 import ErrorBoundary from './components/portfolio/ErrorBoundary';
+import { SavedGame } from './lib/saveGameService';
 import './App.css';
 
 import companiesData from './data/companies-data.json';
@@ -84,13 +92,39 @@ const AppContent: React.FC = () => {
   const [initialized, setInitialized] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<SimulationSettings>({
     startYear: 1998,
     startMonth: 1,
     volatilityFactor: 1.0,
-    timeScale: 7,
+    timeScale: 5,
     crashRandomness: 0.7,
   });
+  // A scenario loaded from a JSON file, offered alongside the bundled ones
+  const [customScenario, setCustomScenario] = useState<Scenario | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const scenario = customScenario && settings.scenarioId === customScenario.id
+    ? customScenario
+    : getScenario(settings.scenarioId);
+  
+  const handleScenarioFile = useCallback((file: File) => {
+    file.text().then(text => {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        setScenarioError('Scenario file is not valid JSON');
+        return;
+      }
+
+      const problem = validateScenario(data);
+      setScenarioError(problem);
+      if (problem) return;
+
+      const loaded = data as Scenario;
+      setCustomScenario(loaded);
+      setSettings(current => ({ ...current, scenarioId: loaded.id }));
+    });
+  }, []);
   
   const initialStocks = useMemo(() => [
     ...companiesData.notorious.map(company => ({
@@ -104,8 +138,11 @@ const AppContent: React.FC = () => {
       peakPrice: company.peakPrice,
       volatility: company.volatility as 'low' | 'medium' | 'high' | 'extreme',
       survivalChance: company.survivalChance as 'very low' | 'low' | 'medium' | 'high' | 'very high',
+      listingDate: company.listingDate,
+      acquisition: company.acquisition as Stock['acquisition'],
       priceHistory: [],
       news: [],
+      status: 'listed' as const,
     })),
     ...companiesData.survivors.map(company => ({
       id: company.name.toLowerCase().replace(/[^a-z0-9]/g, ''),
@@ -118,8 +155,11 @@ const AppContent: React.FC = () => {
       peakPrice: company.peakPrice,
       volatility: company.volatility as 'low' | 'medium' | 'high' | 'extreme',
       survivalChance: company.survivalChance as 'very low' | 'low' | 'medium' | 'high' | 'very high',
+      listingDate: company.listingDate,
+      splitSchedule: company.splitSchedule,
       priceHistory: [],
       news: [],
+      status: 'listed' as const,
     }))
   ], []);
   
@@ -134,59 +174,62 @@ const AppContent: React.FC = () => {
     advanceSimulation,
     advanceToNextDay,
     resetSimulation,
-  } = useStockMarketSimulation(initialStocks, settings);
-  
-  const [portfolio, setPortfolio] = useState<{[key: string]: number}>({});
-  const [cash, setCash] = useState(10000);
-  
-  const buyStock = useCallback((stockId: string, shares: number) => {
-    const stock = stocks.find(s => s.id === stockId);
-    if (!stock) return;
-    
-    const cost = stock.price * shares;
-    if (cost > cash) return;
-    
-    setCash(prev => prev - cost);
-    setPortfolio(prev => ({
-      ...prev,
-      [stockId]: (prev[stockId] || 0) + shares
-    }));
-  }, [stocks, cash]);
-  
-  const sellStock = useCallback((stockId: string, shares: number) => {
-    const stock = stocks.find(s => s.id === stockId);
-    if (!stock) return;
-    
-    const currentShares = portfolio[stockId] || 0;
-    const sharesToSell = Math.min(shares, currentShares);
-    
-    if (sharesToSell <= 0) return;
-    
-    const revenue = stock.price * sharesToSell;
-    setCash(prev => prev + revenue);
-    
-    setPortfolio(prev => {
-      const newPortfolio = { ...prev };
-      newPortfolio[stockId] = currentShares - sharesToSell;
-      
-      if (newPortfolio[stockId] <= 0) {
-        delete newPortfolio[stockId];
-      }
-      
-      return newPortfolio;
-    });
-  }, [stocks, portfolio]);
-  
-  useEffect(() => {
-  }, [market.currentDate]);
+    restoreSimulation,
+    seed,
+    gameSettings,
+    crashEvents,
+    rngState,
+    session,
+    account,
+    portfolio,
+    shorts,
+    options,
+    buyOption,
+    sellOption,
+    marginCall,
+    marginInterest,
+    cash,
+    buyStock,
+    sellStock,
+    shortStock,
+    coverShort,
+    ipoCalendar,
+    ipoRequests,
+    requestIpoAllocation,
+    settlement,
+    trades,
+    ledger,
+    setLotMethod,
+    valuations,
+    result,
+    tradeRejection,
+    tradeConfirmation,
+    orders,
+    placeOrder,
+    cancelOrder,
+  } = useStockMarketSimulation(initialStocks, settings, scenario);
   
-  const loadGameState = useCallback((savedGame: any) => {
+  const loadGameState = useCallback((savedGame: SavedGame) => {
     console.log('Loading game state:', savedGame);
     
-    setPortfolio(savedGame.portfolio);
-    setCash(savedGame.cash);
     setSettings(savedGame.settings);
-  }, []);
+    // Saves from before the whole account was kept only have the cash and share counts,
+    // so the ledger starts from those
+    const savedAccount = savedGame.account ? restoreAccount(savedGame.account) : {
+      ...createAccount(savedGame.cash),
+      portfolio: savedGame.portfolio,
+      ledger: createOpeningLedger(savedGame.portfolio, savedGame.stocks, savedGame.market_state.currentDate),
+    };
+    restoreSimulation(savedGame.settings, {
+      market: savedGame.market_state,
+      stocks: savedGame.stocks,
+      account: savedAccount,
+      valuations: savedGame.valuations,
+      rngState: savedGame.rng_state,
+      crashEvents: savedGame.crash_events,
+      session: savedGame.session,
+    });
+  }, [restoreSimulation]);
   
   const renderSettings = useMemo(() => (
     <SettingsContainer>
@@ -221,6 +264,52 @@ const AppContent: React.FC = () => {
           </SettingsValue>
         </SettingsRow>
         
+        <SettingsRow>
+          <SettingsLabel>End Year:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={settings.endYear || ''}
+              onChange={(e) => setSettings({...settings, endYear: e.target.value ? parseInt(e.target.value) : undefined})}
+              style={{ width: '100px' }}
+            >
+              <option value="">Scenario</option>
+              {[2001, 2002, 2003, 2004, 2005].map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Objective:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={objectivePresets.find(preset => JSON.stringify(preset.objectives) === JSON.stringify(settings.objectives ?? DEFAULT_OBJECTIVES))?.id}
+              onChange={(e) => setSettings({...settings, objectives: objectivePresets.find(preset => preset.id === e.target.value)?.objectives})}
+              style={{ width: '180px' }}
+            >
+              {objectivePresets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Account:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={marginPresets.find(preset => JSON.stringify(preset.margin) === JSON.stringify(settings.margin))?.id}
+              onChange={(e) => setSettings({...settings, margin: marginPresets.find(preset => preset.id === e.target.value)?.margin})}
+              style={{ width: '180px' }}
+            >
+              {marginPresets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
         <SettingsRow>
           <SettingsLabel>Market Volatility:</SettingsLabel>
           <SettingsValue>
@@ -253,6 +342,90 @@ const AppContent: React.FC = () => {
           </SettingsValue>
         </SettingsRow>
         
+        <SettingsRow>
+          <SettingsLabel>Price Model:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={settings.priceModel || 'legacy'}
+              onChange={(e) => setSettings({...settings, priceModel: e.target.value as PriceModelId})}
+              style={{ width: '180px' }}
+            >
+              {priceModels.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Scenario:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={scenario.id}
+              onChange={(e) => setSettings({...settings, scenarioId: e.target.value})}
+              style={{ width: '180px' }}
+            >
+              {[...scenarios.filter(option => option.id !== customScenario?.id), ...(customScenario ? [customScenario] : [])].map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => e.target.files?.[0] && handleScenarioFile(e.target.files[0])}
+              style={{ marginLeft: '8px' }}
+            />
+            {scenarioError && <div style={{ color: 'red' }}>{scenarioError}</div>}
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Market Mode:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={settings.marketMode || 'synthetic'}
+              onChange={(e) => setSettings({...settings, marketMode: e.target.value as MarketMode})}
+              style={{ width: '180px' }}
+            >
+              {marketModes.map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.name}</option>
+              ))}
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Intraday Ticks:</SettingsLabel>
+          <SettingsValue>
+            <select 
+              value={settings.intradayTicks || 0}
+              onChange={(e) => setSettings({...settings, intradayTicks: parseInt(e.target.value)})}
+              style={{ width: '100px' }}
+            >
+              <option value={0}>Off</option>
+              <option value={4}>4 per day</option>
+              <option value={7}>7 per day</option>
+              <option value={14}>14 per day</option>
+            </select>
+          </SettingsValue>
+        </SettingsRow>
+        
+        <SettingsRow>
+          <SettingsLabel>Seed:</SettingsLabel>
+          <SettingsValue>
+            <input
+              type="number"
+              value={settings.seed ?? ''}
+              placeholder={`Random (current: ${seed})`}
+              onChange={(e) => setSettings({
+                ...settings,
+                seed: e.target.value === '' ? undefined : parseInt(e.target.value),
+              })}
+              style={{ width: '180px' }}
+            />
+          </SettingsValue>
+        </SettingsRow>
+        
         <SettingsRow>
           <Button onClick={() => {
             resetSimulation();
@@ -266,7 +439,7 @@ const AppContent: React.FC = () => {
         </SettingsRow>
       </Fieldset>
     </SettingsContainer>
-  ), [settings, resetSimulation]);
+  ), [settings, seed, resetSimulation, scenario, customScenario, scenarioError, handleScenarioFile]);
 
   const renderTabContent = () => {
     switch (activeTab) {
@@ -277,6 +450,8 @@ const AppContent: React.FC = () => {
               stocks={stocks}
               market={market}
               portfolio={portfolio}
+              shorts={shorts}
+              marginCall={marginCall}
               cash={cash}
               isRunning={isRunning}
               gameOver={gameOver}
@@ -288,6 +463,21 @@ const AppContent: React.FC = () => {
               resetSimulation={resetSimulation}
               onBuy={buyStock}
               onSell={sellStock}
+              onShort={shortStock}
+              onCover={coverShort}
+              ipoCalendar={ipoCalendar}
+              ipoRequests={ipoRequests}
+              onRequestIpo={requestIpoAllocation}
+              settlement={settlement}
+              result={result}
+              tradeRejection={tradeRejection}
+              tradeConfirmation={tradeConfirmation}
+              orders={orders}
+              onPlaceOrder={placeOrder}
+              onCancelOrder={cancelOrder}
+              options={options}
+              onBuyOption={buyOption}
+              settings={gameSettings}
             />
           </Suspense>
         );
@@ -304,11 +494,21 @@ const AppContent: React.FC = () => {
               <PortfolioManager 
                 stocks={stocks}
                 portfolio={portfolio}
+                shorts={shorts}
+                options={options}
                 cash={cash}
+                marginInterest={marginInterest}
+                trades={trades}
+                ledger={ledger}
+                onSetLotMethod={setLotMethod}
                 marketDate={market.currentDate}
                 marketIndex={market.marketIndex}
                 marketIndexHistory={market.marketIndexHistory}
                 onSell={sellStock}
+                onCover={coverShort}
+                onSellOption={sellOption}
+                tradeRejection={tradeRejection}
+                tradeConfirmation={tradeConfirmation}
               />
             </ErrorBoundary>
           </Suspense>
@@ -337,9 +537,13 @@ const AppContent: React.FC = () => {
               currentGameState={{
                 marketState: market,
                 stocks,
-                portfolio,
-                cash,
-                settings,
+                account,
+                settings: gameSettings,
+                valuations,
+                result,
+                rngState,
+                crashEvents,
+                session,
               }}
               onLoadGame={loadGameState}
             />
@@ -245,10 +245,16 @@ const getStockRecommendation = (stocks: Stock[], market: MarketState): string =>
       break;
     case 'decline':
     case 'crash':
+    case 'bottom':
       potentialStocks = stocks.filter(stock => 
         stock.survivalChance === 'very high'
       );
       break;
+    case 'recovery':
+      potentialStocks = stocks.filter(stock => 
+        stock.survivalChance === 'high' || stock.survivalChance === 'very high'
+      );
+      break;
     default:
       potentialStocks = stocks;
   }
@@ -282,6 +288,12 @@ const getStockRecommendation = (stocks: Stock[], market: MarketState): string =>
     case 'crash':
       response = "OK, so we're seeing a bit of a correction. But that means BARGAINS! The strong companies will survive, like ";
       break;
+    case 'bottom':
+      response = "Nobody wants to hear the word 'internet' anymore, and that's exactly when you look at companies with REAL earnings, like ";
+      break;
+    case 'recovery':
+      response = "The survivors are coming back, and the smart money is already positioning. Take a look at ";
+      break;
     default:
       response = "Based on my analysis, you should look at ";
   }
@@ -330,6 +342,10 @@ const getBubbleInsight = (market: MarketState): string => {
       return "We're seeing a healthy correction, that's all. Every bull market has its pullbacks. This is actually GOOD for the sector long-term, weeding out the weak players. The strong companies with real business models will bounce back stronger than ever!";
     case 'crash':
       return "Alright, I'll level with you - things are rough out there. But this is when FORTUNES are made! Warren Buffett says be greedy when others are fearful. The dotcom sector isn't dead, it's just on SALE! The internet isn't going away, and the survivors will be 10-baggers from these levels!";
+    case 'bottom':
+      return "Bubble? That's ancient history, my friend. Now everyone's calling it a lost decade and hiding in bonds. I'm not saying it's the bottom, but when the cab drivers stop talking stocks, it's usually close. Stick with companies that actually make money.";
+    case 'recovery':
+      return "The bubble's long gone, and what's left is a leaner, meaner tech sector. The survivors have real revenue and real profits now. It's not 1999 again, but the internet is here to stay and the recovery is REAL.";
     default:
       return "The market's always going to fluctuate, but the internet revolution is REAL. Focus on companies with solid fundamentals and disruptive technology, and you'll do fine in the long run.";
   }
@@ -360,7 +376,7 @@ const getPortfolioAdvice = (
   // Generate advice based on market stage and portfolio composition
   let advice = '';
   
-  if (market.bubbleStage === 'crash' || market.bubbleStage === 'decline') {
+  if (market.bubbleStage === 'crash' || market.bubbleStage === 'decline' || market.bubbleStage === 'bottom') {
     if (cashPercentage > 50) {
       advice = "Smart move keeping a lot of cash on hand during this volatility. You're positioned well to pick up some BARGAINS. Consider averaging into quality names that have been beaten down.";
     } else {
@@ -372,6 +388,10 @@ const getPortfolioAdvice = (
     } else {
       advice = "You're well-positioned in this strong market! Your portfolio has good exposure to the internet boom. Just keep an eye on your riskier positions.";
     }
+  } else if (market.bubbleStage === 'recovery') {
+    advice = cashPercentage > 50
+      ? "The worst is behind us and you're still sitting in cash? Start easing back into the survivors with real earnings before the rebound leaves you behind."
+      : "Nice work getting back in for the recovery. Stick with the quality names and don't chase the junk that's bouncing off the lows.";
   } else if (market.bubbleStage === 'mania') {
     advice = "This market is ABSOLUTELY INSANE right now, and you need maximum exposure! Cash is trash when stocks are moving 10% a DAY. Get fully invested and ride this wave!";
   } else {
@@ -391,7 +411,7 @@ const getPortfolioAdvice = (
 const getStockCommentary = (stock: Stock, market: MarketState): string => {
   if (stock.survivalChance === 'very high' || stock.survivalChance === 'high') {
     return "That's one of the strongest players in the space with real staying power.";
-  } else if (market.bubbleStage === 'crash' || market.bubbleStage === 'decline') {
+  } else if (market.bubbleStage === 'crash' || market.bubbleStage === 'decline' || market.bubbleStage === 'bottom') {
     return "That one's facing some headwinds in the current market. Keep a close eye on it.";
   } else if (stock.volatility === 'extreme' || stock.volatility === 'high') {
     return "That's a high-flyer with massive upside potential. Volatile, but that's where the big returns come from!";
@@ -412,6 +432,10 @@ const getSellAdvice = (market: MarketState): string => {
       return "Selling into weakness is rarely a good strategy. We're just seeing a healthy correction after a massive run-up. The strong companies will bounce back. If you sell now, you'll probably FOMO back in at higher prices.";
     case 'crash':
       return "I get the panic, I really do. But selling at the bottom is how retail investors ALWAYS get crushed. If you didn't sell at the top, selling now just locks in your losses. The survivors of this crash will be the tech giants of tomorrow.";
+    case 'bottom':
+      return "Selling now means selling to the guy who's buying at the lows. If a company's going to make it, this is the worst price you'll ever get. If it isn't, then sure, cut it loose and move on.";
+    case 'recovery':
+      return "Taking some profits off the lows is perfectly reasonable. Just don't dump your best names; this recovery has legs.";
     default:
       return "Timing the market is a fool's game. If you believe in the internet revolution long-term, stay invested through the volatility. That said, there's nothing wrong with taking some profits on your biggest winners.";
   }
@@ -1,6 +1,6 @@
 import React from 'react';
 import styled from 'styled-components';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { Window } from 'react95';
 
 interface StockChartProps {
@@ -9,6 +9,11 @@ interface StockChartProps {
     price: number;
   }>;
   stockName: string;
+  // Dated events drawn as vertical lines, e.g. splits
+  markers?: Array<{
+    date: string;
+    label: string;
+  }>;
   width?: string;
   height?: string;
 }
@@ -19,7 +24,7 @@ const ChartContainer = styled.div`
   margin-bottom: 16px;
 `;
 
-const StockChart: React.FC<StockChartProps> = ({ data, stockName, width = '100%', height = '300px' }) => {
+const StockChart: React.FC<StockChartProps> = ({ data, stockName, markers = [], width = '100%', height = '300px' }) => {
   return (
     <ChartContainer style={{ width, height }}>
       <ResponsiveContainer width="100%" height="100%">
@@ -43,6 +48,9 @@ const StockChart: React.FC<StockChartProps> = ({ data, stockName, width = '100%'
             }}
           />
           <Legend />
+          {markers.map(marker => (
+            <ReferenceLine key={`${marker.date}-${marker.label}`} x={marker.date} stroke="#808080" strokeDasharray="4 4" label={marker.label} />
+          ))}
           <Line 
             type="monotone" 
             dataKey="price" 
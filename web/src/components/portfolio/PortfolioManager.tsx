@@ -4,16 +4,30 @@ import { Window } from '../ui/Window';
 import { PrimaryButton } from '../ui/UIComponents';
 import { TextField, Button, Fieldset, ScrollView, Select, Separator, Table, TableBody, TableHead, TableRow, TableHeadCell, TableDataCell } from 'react95';
 import { Stock, PricePoint } from '../../lib/stockMarketSimulation';
+import { Trade, ShortPosition, CONTRACT_SIZE, tradeSideLabels } from '../../lib/playerAccount';
+import { OptionPosition, describeContract } from '../../lib/options';
+import { Ledger, LotMethod, lotMethods, getCostBasis, getUnrealizedGain, getRealizedGain } from '../../lib/taxLots';
+import { getBorrowRate } from '../../lib/shortSelling';
 import { PortfolioChart } from '../portfolio/Charts';
 
 interface PortfolioManagerProps {
   stocks: Stock[];
   portfolio: {[key: string]: number};
+  shorts: {[key: string]: ShortPosition};
+  options: {[contractId: string]: OptionPosition};
   cash: number;
+  marginInterest: number;
+  trades: Trade[];
+  ledger: Ledger;
   marketDate: string;
   marketIndex: number;
   marketIndexHistory: PricePoint[];
-  onSell: (stockId: string, shares: number) => void;
+  onSell: (stockId: string, shares: number, lotIds?: number[]) => void;
+  onSetLotMethod: (method: LotMethod) => void;
+  onCover: (stockId: string, shares: number) => void;
+  onSellOption: (contractId: string, contracts: number) => void;
+  tradeRejection: string | null;
+  tradeConfirmation: Trade | null;
 }
 
 const PortfolioContainer = styled.div`
@@ -70,11 +84,21 @@ const StockActionCell = styled.div`
 const PortfolioManager: React.FC<PortfolioManagerProps> = ({
   stocks,
   portfolio,
+  shorts,
+  options,
   cash,
+  marginInterest,
+  trades,
+  ledger,
   marketDate,
   marketIndex,
   marketIndexHistory,
-  onSell
+  onSell,
+  onSetLotMethod,
+  onCover,
+  onSellOption,
+  tradeRejection,
+  tradeConfirmation
 }) => {
   const [portfolioHistory, setPortfolioHistory] = useState<Array<{date: string, value: number}>>([]);
   const [selectedStock, setSelectedStock] = useState<string | null>(null);
@@ -88,7 +112,53 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
   };
   
   const portfolioValue = calculatePortfolioValue();
-  const totalAssets = cash + portfolioValue;
+  
+  // Short P&L is what the sales brought in, less the cost of buying back and carrying them
+  const shortPositions = Object.entries(shorts).map(([stockId, short]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock) return null;
+    
+    const shares = -short.shares;
+    const value = stock.price * shares;
+    const profit = short.proceeds - value - short.carryingCosts;
+    
+    return {
+      id: stockId,
+      stock,
+      shares,
+      value,
+      proceeds: short.proceeds,
+      carryingCosts: short.carryingCosts,
+      profit,
+      profitPercentage: (profit / short.proceeds) * 100,
+    };
+  }).filter(Boolean) as Array<{
+    id: string;
+    stock: Stock;
+    shares: number;
+    value: number;
+    proceeds: number;
+    carryingCosts: number;
+    profit: number;
+    profitPercentage: number;
+  }>;
+  
+  const shortValue = shortPositions.reduce((total, item) => total + item.value, 0);
+  
+  // Options are valued at the model's mark from the last close
+  const optionPositions = Object.entries(options).map(([contractId, position]) => {
+    const value = position.mark * CONTRACT_SIZE * position.contracts;
+    return {
+      id: contractId,
+      position,
+      symbol: stocks.find(s => s.id === position.contract.stockId)?.symbol || position.contract.stockId,
+      value,
+      profit: value - position.cost,
+    };
+  });
+  const optionsValue = optionPositions.reduce((total, item) => total + item.value, 0);
+  const totalAssets = cash + portfolioValue + optionsValue - shortValue;
+  const realizedGain = getRealizedGain(ledger);
   
   useEffect(() => {
     const history = marketIndexHistory.map(point => ({
@@ -128,15 +198,15 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
   
-  // Get portfolio stocks
+  // Get portfolio stocks, with cost basis and gains from the open tax lots
   const portfolioStocks = Object.entries(portfolio).map(([stockId, shares]) => {
     const stock = stocks.find(s => s.id === stockId);
     if (!stock) return null;
     
     const value = stock.price * shares;
-    const costBasis = stock.initialPrice * shares;
-    const profit = value - costBasis;
-    const profitPercentage = (profit / costBasis) * 100;
+    const costBasis = getCostBasis(ledger, stockId);
+    const profit = getUnrealizedGain(ledger, stock);
+    const profitPercentage = costBasis > 0 ? (profit / costBasis) * 100 : 0;
     
     return {
       id: stockId,
@@ -192,8 +262,11 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
       <Fieldset label="Portfolio Summary">
         <PortfolioSummary>
           <SummaryCard>
-            <div>Cash</div>
-            <PortfolioValue>{formatCurrency(cash)}</PortfolioValue>
+            <div>{cash < 0 ? 'Margin Debt' : 'Cash'}</div>
+            <PortfolioValue>{formatCurrency(Math.abs(cash))}</PortfolioValue>
+            {marginInterest > 0 && (
+              <div style={{ marginTop: '4px' }}>{formatCurrency(marginInterest)} interest paid</div>
+            )}
           </SummaryCard>
           <SummaryCard>
             <div>Portfolio Value</div>
@@ -202,6 +275,18 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
               {formatPercentage(performance.daily)} today
             </PerformanceIndicator>
           </SummaryCard>
+          {optionPositions.length > 0 && (
+            <SummaryCard>
+              <div>Options Value</div>
+              <PortfolioValue>{formatCurrency(optionsValue)}</PortfolioValue>
+            </SummaryCard>
+          )}
+          {shortPositions.length > 0 && (
+            <SummaryCard>
+              <div>Owed on Shorts</div>
+              <PortfolioValue>{formatCurrency(shortValue)}</PortfolioValue>
+            </SummaryCard>
+          )}
           <SummaryCard>
             <div>Total Assets</div>
             <PortfolioValue>{formatCurrency(totalAssets)}</PortfolioValue>
@@ -209,6 +294,10 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
               {formatPercentage(performance.overall)} overall
             </PerformanceIndicator>
           </SummaryCard>
+          <SummaryCard>
+            <div>Realized Gains</div>
+            <PortfolioValue style={{ color: realizedGain >= 0 ? 'green' : 'red' }}>{formatCurrency(realizedGain)}</PortfolioValue>
+          </SummaryCard>
         </PortfolioSummary>
       </Fieldset>
       
@@ -218,6 +307,16 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
       
       <SectionTitle>Holdings</SectionTitle>
       
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ marginRight: '8px' }}>Sell lots:</span>
+        <Select
+          value={ledger.method}
+          onChange={(e) => onSetLotMethod(e.value as LotMethod)}
+          options={lotMethods.map(method => ({ value: method.id, label: method.name }))}
+          width={200}
+        />
+      </div>
+      
       {portfolioStocks.length === 0 ? (
         <NoStocksMessage>
           You don't own any stocks yet. Go to the Market tab to start investing!
@@ -230,7 +329,8 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
               <TableHeadCell>Shares</TableHeadCell>
               <TableHeadCell>Price</TableHeadCell>
               <TableHeadCell>Value</TableHeadCell>
-              <TableHeadCell>Profit/Loss</TableHeadCell>
+              <TableHeadCell>Cost Basis</TableHeadCell>
+              <TableHeadCell>Unrealized Gain/Loss</TableHeadCell>
               <TableHeadCell>Actions</TableHeadCell>
             </TableRow>
           </TableHead>
@@ -244,6 +344,7 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
                 <TableDataCell>{item.shares}</TableDataCell>
                 <TableDataCell>{formatCurrency(item.stock.price)}</TableDataCell>
                 <TableDataCell>{formatCurrency(item.value)}</TableDataCell>
+                <TableDataCell>{formatCurrency(item.costBasis)}</TableDataCell>
                 <TableDataCell>
                   <div style={{ color: item.profit >= 0 ? 'green' : 'red' }}>
                     {formatCurrency(item.profit)}
@@ -284,6 +385,161 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({
         </Table>
       )}
       
+      {selectedStock && ledger.method === 'specific' && ledger.lots[selectedStock] && (
+        <>
+          <SectionTitle>Tax Lots: {stocks.find(s => s.id === selectedStock)?.symbol || selectedStock}</SectionTitle>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeadCell>Acquired</TableHeadCell>
+                <TableHeadCell>Shares</TableHeadCell>
+                <TableHeadCell>Cost per Share</TableHeadCell>
+                <TableHeadCell>Unrealized Gain/Loss</TableHeadCell>
+                <TableHeadCell>Actions</TableHeadCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ledger.lots[selectedStock].map((lot) => {
+                const price = stocks.find(s => s.id === selectedStock)?.price || 0;
+                const gain = (price - lot.price) * lot.shares;
+                return (
+                  <TableRow key={lot.id}>
+                    <TableDataCell>{lot.date}</TableDataCell>
+                    <TableDataCell>{lot.shares}</TableDataCell>
+                    <TableDataCell>{formatCurrency(lot.price)}</TableDataCell>
+                    <TableDataCell>
+                      <div style={{ color: gain >= 0 ? 'green' : 'red' }}>{formatCurrency(gain)}</div>
+                    </TableDataCell>
+                    <TableDataCell>
+                      <Button onClick={() => onSell(selectedStock, lot.shares, [lot.id])}>
+                        Sell Lot
+                      </Button>
+                    </TableDataCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </>
+      )}
+      
+      {optionPositions.length > 0 && (
+        <>
+          <SectionTitle>Options</SectionTitle>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeadCell>Contract</TableHeadCell>
+                <TableHeadCell>Contracts</TableHeadCell>
+                <TableHeadCell>Mark</TableHeadCell>
+                <TableHeadCell>Value</TableHeadCell>
+                <TableHeadCell>Gain/Loss</TableHeadCell>
+                <TableHeadCell>Actions</TableHeadCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {optionPositions.map((item) => (
+                <TableRow key={item.id}>
+                  <TableDataCell>
+                    <div style={{ fontWeight: 'bold' }}>{describeContract(item.position.contract, item.symbol)}</div>
+                    <div style={{ fontSize: '12px' }}>
+                      {item.position.delivery === 'shares' ? 'Delivers shares' : 'Settles in cash'} on {item.position.contract.expiry}
+                    </div>
+                  </TableDataCell>
+                  <TableDataCell>{item.position.contracts}</TableDataCell>
+                  <TableDataCell>{formatCurrency(item.position.mark)}</TableDataCell>
+                  <TableDataCell>{formatCurrency(item.value)}</TableDataCell>
+                  <TableDataCell>
+                    <div style={{ color: item.profit >= 0 ? 'green' : 'red' }}>
+                      {formatCurrency(item.profit)}
+                    </div>
+                  </TableDataCell>
+                  <TableDataCell>
+                    <Button onClick={() => onSellOption(item.id, item.position.contracts)}>
+                      Sell
+                    </Button>
+                  </TableDataCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+      
+      {shortPositions.length > 0 && (
+        <>
+          <SectionTitle>Short Positions</SectionTitle>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeadCell>Stock</TableHeadCell>
+                <TableHeadCell>Shares</TableHeadCell>
+                <TableHeadCell>Price</TableHeadCell>
+                <TableHeadCell>Cost to Cover</TableHeadCell>
+                <TableHeadCell>Carrying Costs</TableHeadCell>
+                <TableHeadCell>Gain/Loss</TableHeadCell>
+                <TableHeadCell>Actions</TableHeadCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shortPositions.map((item) => (
+                <TableRow key={item.id}>
+                  <TableDataCell>
+                    <div style={{ fontWeight: 'bold' }}>{item.stock.symbol}</div>
+                    <div style={{ fontSize: '12px' }}>{(getBorrowRate(item.stock) * 100).toFixed(1)}% a year to borrow</div>
+                  </TableDataCell>
+                  <TableDataCell>-{item.shares}</TableDataCell>
+                  <TableDataCell>{formatCurrency(item.stock.price)}</TableDataCell>
+                  <TableDataCell>{formatCurrency(item.value)}</TableDataCell>
+                  <TableDataCell>{formatCurrency(item.carryingCosts)}</TableDataCell>
+                  <TableDataCell>
+                    <div style={{ color: item.profit >= 0 ? 'green' : 'red' }}>
+                      {formatCurrency(item.profit)}
+                    </div>
+                    <div style={{ fontSize: '12px', color: item.profit >= 0 ? 'green' : 'red' }}>
+                      {formatPercentage(item.profitPercentage)}
+                    </div>
+                  </TableDataCell>
+                  <TableDataCell>
+                    <Button onClick={() => onCover(item.id, item.shares)}>
+                      Cover
+                    </Button>
+                  </TableDataCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+      {tradeRejection && (
+        <div style={{ marginTop: '8px', color: 'red' }}>Order rejected: {tradeRejection}</div>
+      )}
+      {tradeConfirmation && (
+        <div style={{ marginTop: '8px' }}>
+          {tradeSideLabels[tradeConfirmation.side]} {tradeConfirmation.shares} {stocks.find(s => s.id === tradeConfirmation.stockId)?.symbol} at {formatCurrency(tradeConfirmation.price)}
+          {' '}(slippage {formatCurrency(tradeConfirmation.slippage || 0)})
+        </div>
+      )}
+      
+      <SectionTitle>Trade Log</SectionTitle>
+      
+      {trades.length === 0 ? (
+        <NoStocksMessage>
+          No trades yet.
+        </NoStocksMessage>
+      ) : (
+        <ScrollView style={{ height: '200px' }}>
+          {trades.slice().reverse().map((trade, index) => (
+            <div key={index} style={{ color: trade.forced ? 'red' : 'inherit' }}>
+              {trade.date}: {tradeSideLabels[trade.side]} {trade.shares} {stocks.find(s => s.id === trade.stockId)?.symbol || trade.stockId} at {formatCurrency(trade.price)}
+              {trade.forced === 'margin-call' && ' (margin call liquidation)'}
+              {trade.forced === 'buy-in' && ' (forced buy-in)'}
+              {trade.forced === 'settlement' && ' (final settlement)'}
+            </div>
+          ))}
+        </ScrollView>
+      )}
+      
       <SectionTitle>Sector Allocation</SectionTitle>
       
       {portfolioStocks.length === 0 ? (
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Stock } from '../../lib/stockMarketSimulation';
+import { PendingOrder, describeOrder } from '../../lib/orders';
+import { Button, Fieldset } from 'react95';
+
+interface OpenOrdersProps {
+  orders: PendingOrder[];
+  stocks: Stock[];
+  onCancelOrder: (orderId: number) => void;
+}
+
+const OpenOrders: React.FC<OpenOrdersProps> = ({ orders, stocks, onCancelOrder }) => {
+  return (
+    <Fieldset label="Open Orders">
+      {orders.length === 0 ? (
+        <div style={{ padding: '8px' }}>No open orders.</div>
+      ) : (
+        orders.map(order => {
+          const stock = stocks.find(s => s.id === order.stockId);
+          return (
+            <div key={order.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+              <span>
+                {describeOrder(order, stock?.symbol ?? order.stockId)}
+                {stock && <span style={{ color: '#666' }}> &middot; last ${stock.price.toFixed(2)} &middot; placed {order.placedDate}</span>}
+              </span>
+              <Button onClick={() => onCancelOrder(order.id)}>Cancel</Button>
+            </div>
+          );
+        })
+      )}
+    </Fieldset>
+  );
+};
+
+export default OpenOrders;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Stock } from '../../lib/stockMarketSimulation';
+import { CONTRACT_SIZE } from '../../lib/playerAccount';
+import { OptionContract, OptionDelivery, OptionPosition, OptionQuote, OptionType, getOptionChain, getContractId } from '../../lib/options';
+import { Button, Fieldset, NumberInput, Select, Table, TableBody, TableHead, TableRow, TableHeadCell, TableDataCell } from 'react95';
+
+interface OptionChainProps {
+  stock: Stock;
+  date: string;
+  // Annualized volatility the premiums are priced at
+  volatility: number;
+  options: {[contractId: string]: OptionPosition};
+  disabled: boolean;
+  onBuyOption: (contract: OptionContract, contracts: number, delivery: OptionDelivery) => void;
+}
+
+const formatPremium = (value: number): string => `$${value.toFixed(2)}`;
+
+const OptionChain: React.FC<OptionChainProps> = ({ stock, date, volatility, options, disabled, onBuyOption }) => {
+  const chain = getOptionChain(stock, date, volatility);
+  const [expiry, setExpiry] = useState(chain[0].expiry);
+  const [contracts, setContracts] = useState(1);
+  const [delivery, setDelivery] = useState<OptionDelivery>('cash');
+  // The listed expiries roll forward as old ones pass
+  const selected = chain.find(entry => entry.expiry === expiry) || chain[0];
+
+  const renderSide = (type: OptionType, strike: number, quote: OptionQuote) => {
+    const contract: OptionContract = { stockId: stock.id, type, strike, expiry: selected.expiry };
+    const held = options[getContractId(contract)]?.contracts;
+    return (
+      <TableDataCell>
+        <div>{formatPremium(quote.bid)} / {formatPremium(quote.ask)}</div>
+        <div style={{ display: 'flex', alignItems: 'center' }}>
+          <Button size="sm" disabled={disabled} onClick={() => onBuyOption(contract, contracts, delivery)}>
+            Buy
+          </Button>
+          {held && <span style={{ marginLeft: '4px', fontSize: '12px' }}>{held} held</span>}
+        </div>
+      </TableDataCell>
+    );
+  };
+
+  return (
+    <Fieldset label={`${stock.symbol} Options`}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ marginRight: '8px' }}>Expiry:</span>
+        <Select
+          value={selected.expiry}
+          onChange={(e) => setExpiry(e.value as string)}
+          options={chain.map(entry => ({ value: entry.expiry, label: entry.expiry }))}
+          width={120}
+        />
+        <span style={{ margin: '0 8px' }}>Contracts:</span>
+        <NumberInput value={contracts} onChange={setContracts} min={1} max={100} width={70} />
+        <span style={{ margin: '0 8px' }}>At expiry:</span>
+        <Select
+          value={delivery}
+          onChange={(e) => setDelivery(e.value as OptionDelivery)}
+          options={[{ value: 'cash', label: 'Settle in cash' }, { value: 'shares', label: 'Deliver shares' }]}
+          width={140}
+        />
+      </div>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableHeadCell>Calls (bid / ask)</TableHeadCell>
+            <TableHeadCell>Strike</TableHeadCell>
+            <TableHeadCell>Puts (bid / ask)</TableHeadCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {selected.rows.map(row => (
+            <TableRow key={row.strike}>
+              {renderSide('call', row.strike, row.call)}
+              <TableDataCell style={{ fontWeight: 'bold' }}>{formatPremium(row.strike)}</TableDataCell>
+              {renderSide('put', row.strike, row.put)}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>
+        Premiums are per share; each contract is for {CONTRACT_SIZE} shares.
+      </div>
+    </Fieldset>
+  );
+};
+
+export default OptionChain;
@@ -5,15 +5,22 @@ import { PrimaryButton } from '../ui/UIComponents';
 import { TextField, Button, Fieldset, ScrollView, Select, Separator } from 'react95';
 import { Stock } from '../../lib/stockMarketSimulation';
 import { saveGameProgress, loadSavedGames, loadSavedGame, deleteSavedGame, SavedGame } from '../../lib/saveGameService';
+import { PlayerAccount } from '../../lib/playerAccount';
+import { Valuation, GameResult } from '../../lib/objectives';
+import { CrashEvents, IntradaySession } from '../../lib/marketEngine';
 import { useAuth } from '../../context/AuthContext';
 
 interface SaveLoadProps {
   currentGameState: {
     marketState: any;
     stocks: Stock[];
-    portfolio: {[key: string]: number};
-    cash: number;
+    account: PlayerAccount;
     settings: any;
+    valuations: Valuation[];
+    result: GameResult | null;
+    rngState: number;
+    crashEvents: CrashEvents;
+    session: IntradaySession | null;
   };
   onLoadGame: (gameState: SavedGame) => void;
 }
@@ -85,9 +92,13 @@ const SaveLoadManager: React.FC<SaveLoadProps> = ({ currentGameState, onLoadGame
       gameName,
       currentGameState.marketState,
       currentGameState.stocks,
-      currentGameState.portfolio,
-      currentGameState.cash,
-      currentGameState.settings
+      currentGameState.account,
+      currentGameState.settings,
+      currentGameState.valuations,
+      currentGameState.result,
+      currentGameState.rngState,
+      currentGameState.crashEvents,
+      currentGameState.session
     );
     
     if (saveId) {
@@ -177,6 +188,11 @@ const SaveLoadManager: React.FC<SaveLoadProps> = ({ currentGameState, onLoadGame
                   <div style={{ fontSize: '12px' }}>
                     Cash: ${game.cash.toFixed(2)}
                   </div>
+                  {game.result && (
+                    <div style={{ fontSize: '12px' }}>
+                      Final score: {game.result.score} ({game.result.outcome === 'won' ? 'Won' : 'Lost'})
+                    </div>
+                  )}
                 </GameInfo>
                 <ButtonGroup>
                   <Button onClick={() => handleLoadGame(game.id || '')}>Load</Button>
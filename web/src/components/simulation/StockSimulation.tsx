@@ -1,7 +1,23 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Stock } from '../../lib/stockMarketSimulation';
+import { Stock, SimulationSettings } from '../../lib/stockMarketSimulation';
+import { isActive, isTradable } from '../../lib/companyLifecycle';
+import { UpcomingIpo } from '../../lib/ipoCalendar';
+import { MergerDeal, getDealValue } from '../../lib/mergers';
+import { getRunwayQuarters } from '../../lib/fundamentals';
+import { getHistoricalIndexReturn, HISTORICAL_INDEX_NAME } from '../../lib/historicalMarket';
+import { STARTING_CASH, FinalSettlement, Trade, ShortPosition, tradeSideLabels } from '../../lib/playerAccount';
+import { getBorrowRate, isHardToBorrow } from '../../lib/shortSelling';
+import { MarginCall } from '../../lib/margin';
+import { getQuote } from '../../lib/liquidity';
+import { getEffectiveVolatility } from '../../lib/priceModels';
+import { GameResult, describeObjective } from '../../lib/objectives';
+import { getTradingHaltReason } from '../../lib/tradingHalts';
+import { PendingOrder, OrderRequest, OrderType, OrderExpiry, orderTypes } from '../../lib/orders';
+import { OptionContract, OptionDelivery, OptionPosition } from '../../lib/options';
 import { Window } from '../ui/Window';
 import { StockChart, PortfolioChart } from '../portfolio/Charts';
+import OpenOrders from './OpenOrders';
+import OptionChain from './OptionChain';
 import { PrimaryButton } from '../ui/UIComponents';
 import styled from 'styled-components';
 import { NumberInput, Fieldset, Select } from 'react95';
@@ -10,6 +26,8 @@ interface SimulationProps {
   stocks: Stock[];
   market: any;
   portfolio: {[key: string]: number};
+  shorts: {[key: string]: ShortPosition};
+  marginCall?: MarginCall;
   cash: number;
   isRunning: boolean;
   gameOver: boolean;
@@ -21,6 +39,22 @@ interface SimulationProps {
   resetSimulation: () => void;
   onBuy: (stockId: string, shares: number) => void;
   onSell: (stockId: string, shares: number) => void;
+  onShort: (stockId: string, shares: number) => void;
+  onCover: (stockId: string, shares: number) => void;
+  ipoCalendar: UpcomingIpo[];
+  ipoRequests: {[key: string]: number};
+  onRequestIpo: (stockId: string, shares: number) => void;
+  settlement: FinalSettlement | null;
+  result: GameResult | null;
+  tradeRejection: string | null;
+  tradeConfirmation: Trade | null;
+  orders: PendingOrder[];
+  onPlaceOrder: (request: OrderRequest) => void;
+  onCancelOrder: (orderId: number) => void;
+  options: {[contractId: string]: OptionPosition};
+  onBuyOption: (contract: OptionContract, contracts: number, delivery: OptionDelivery) => void;
+  // Settings the game in progress runs on, which price the options
+  settings: SimulationSettings;
 }
 
 const SimulationContainer = styled.div`
@@ -77,6 +111,8 @@ const StockSimulation: React.FC<SimulationProps> = ({
   stocks, 
   market, 
   portfolio, 
+  shorts, 
+  marginCall, 
   cash, 
   isRunning, 
   gameOver, 
@@ -87,33 +123,45 @@ const StockSimulation: React.FC<SimulationProps> = ({
   advanceToNextDay,
   resetSimulation,
   onBuy,
-  onSell
+  onSell,
+  onShort,
+  onCover,
+  ipoCalendar,
+  ipoRequests,
+  onRequestIpo,
+  settlement,
+  result,
+  tradeRejection,
+  tradeConfirmation,
+  orders,
+  onPlaceOrder,
+  onCancelOrder,
+  options,
+  onBuyOption,
+  settings
 }) => {
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null);
   const [purchaseAmount, setPurchaseAmount] = useState(1);
+  const [allocationAmount, setAllocationAmount] = useState(100);
+  const [orderSide, setOrderSide] = useState<'buy' | 'sell'>('sell');
+  const [orderType, setOrderType] = useState<OrderType>('stop');
+  const [orderExpiry, setOrderExpiry] = useState<OrderExpiry>('gtc');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
   
-  // Generate simulated time based on date
-  const getCurrentTime = useCallback(() => {
-    const dateParts = market.currentDate.split('-');
-    const day = parseInt(dateParts[2]);
-    const month = parseInt(dateParts[1]);
-    
-    const hours = (9 + (day % 8)) % 24;
-    const minutes = ((month * day) % 60);
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-  }, [market.currentDate]);
-
-  // Set first stock as selected when stocks are loaded
+  // Keep the selected stock in sync with the latest simulation step
   useEffect(() => {
-    if (stocks.length > 0 && !selectedStock) {
-      setSelectedStock(stocks[0]);
+    if (stocks.length > 0) {
+      setSelectedStock(prev => stocks.find(s => s.id === prev?.id && isActive(s)) || stocks.find(isActive) || null);
     }
-  }, [stocks, selectedStock]);
+  }, [stocks]);
 
-  // Calculate portfolio value
+  // Calculate portfolio value, net of what the shorts would cost to cover
   const calculatePortfolioValue = () => {
-    return Object.entries(portfolio).reduce((total, [stockId, shares]) => {
+    return [
+      ...Object.entries(portfolio),
+      ...Object.entries(shorts).map(([stockId, short]): [string, number] => [stockId, short.shares]),
+    ].reduce((total, [stockId, shares]) => {
       const stock = stocks.find(s => s.id === stockId);
       return total + (stock ? stock.price * shares : 0);
     }, 0);
@@ -131,6 +179,31 @@ const StockSimulation: React.FC<SimulationProps> = ({
     onSell(selectedStock.id, purchaseAmount);
   }, [selectedStock, purchaseAmount, onSell]);
 
+  // Sell borrowed shares, or buy them back
+  const shortStock = useCallback(() => {
+    if (!selectedStock) return;
+    onShort(selectedStock.id, purchaseAmount);
+  }, [selectedStock, purchaseAmount, onShort]);
+
+  const coverStock = useCallback(() => {
+    if (!selectedStock) return;
+    onCover(selectedStock.id, purchaseAmount);
+  }, [selectedStock, purchaseAmount, onCover]);
+
+  // Place a pending order for the selected stock
+  const placeOrder = useCallback(() => {
+    if (!selectedStock) return;
+    onPlaceOrder({
+      stockId: selectedStock.id,
+      side: orderSide,
+      type: orderType,
+      shares: purchaseAmount,
+      triggerPrice: parseFloat(triggerPrice),
+      limitPrice: orderType === 'stop-limit' ? parseFloat(limitPrice) : undefined,
+      expiry: orderExpiry,
+    });
+  }, [selectedStock, orderSide, orderType, purchaseAmount, triggerPrice, limitPrice, orderExpiry, onPlaceOrder]);
+
   // Format currency
   const formatCurrency = useCallback((amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -150,10 +223,49 @@ const StockSimulation: React.FC<SimulationProps> = ({
       case 'peak': return 'Market Peak';
       case 'decline': return 'Decline';
       case 'crash': return 'Market Crash';
+      case 'bottom': return 'Bottoming Out';
+      case 'recovery': return 'Recovery';
       default: return market.bubbleStage;
     }
   }, [market.bubbleStage]);
 
+  const formatPercent = useCallback((value: number) => {
+    return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+  }, []);
+
+  const formatVolume = useCallback((volume?: number) => {
+    return volume !== undefined ? new Intl.NumberFormat('en-US').format(volume) : '-';
+  }, []);
+
+  // Fundamentals are reported in millions of dollars
+  const formatMillions = useCallback((amount: number) => {
+    return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(1)}M`;
+  }, []);
+
+  const fundamentals = selectedStock?.fundamentals;
+  const lastReport = fundamentals?.lastReport;
+  const runway = fundamentals ? getRunwayQuarters(fundamentals) : Infinity;
+
+  // What the starting stake would have become in the real index over the same dates
+  const startDate = market.marketIndexHistory[0]?.date;
+  const realIndexReturn = startDate ? getHistoricalIndexReturn(startDate, market.currentDate) : undefined;
+
+  const lastBar = selectedStock?.priceHistory[selectedStock.priceHistory.length - 1];
+  const quote = selectedStock ? getQuote(selectedStock) : undefined;
+
+  const chartMarkers = useMemo(() => {
+    if (!selectedStock) return [];
+    return (selectedStock.splits || []).map(split => ({ date: split.date, label: `${split.ratio}:1` }));
+  }, [selectedStock]);
+
+  const pendingDeal: MergerDeal | undefined = selectedStock
+    ? (market.deals || []).find((deal: MergerDeal) => deal.targetId === selectedStock.id || deal.acquirerId === selectedStock.id)
+    : undefined;
+  const dealAcquirer = pendingDeal && stocks.find(s => s.id === pendingDeal.acquirerId);
+  const dealTarget = pendingDeal && stocks.find(s => s.id === pendingDeal.targetId);
+
+  const announcedIpos = ipoCalendar.filter(ipo => ipo.announced);
+
   const portfolioHistoryData = useMemo(() => {
     return market.marketIndexHistory.map((point: {date: string, price: number}) => ({
       date: point.date,
@@ -190,10 +302,22 @@ const StockSimulation: React.FC<SimulationProps> = ({
           />
         </div>
         <div>
-          <span style={{ fontWeight: 'bold' }}>Date: {market.currentDate} {getCurrentTime()}</span>
+          <span style={{ fontWeight: 'bold' }}>Date: {market.currentDate} {market.currentTime}</span>
         </div>
       </ControlPanel>
 
+      {market.circuitBreaker?.date === market.currentDate && (
+        <div style={{ padding: '8px 16px', color: 'red', fontWeight: 'bold' }}>
+          Level {market.circuitBreaker.level} circuit breaker: trading halted at {market.circuitBreaker.time} until the next session
+        </div>
+      )}
+
+      {marginCall && (
+        <div style={{ padding: '8px 16px', color: 'red', fontWeight: 'bold' }}>
+          Margin call: equity {formatCurrency(marginCall.amount)} short of maintenance since {marginCall.date}; positions will be sold after {marginCall.deadline}
+        </div>
+      )}
+
       <StatsPanel>
         <StatBox>
           <div>Cash</div>
@@ -235,7 +359,7 @@ const StockSimulation: React.FC<SimulationProps> = ({
             <div style={{ width: '30%', marginRight: '16px' }}>
               <Fieldset label="Stocks">
                 <div style={{ height: '300px', overflowY: 'auto' }}>
-                  {stocks.map(stock => (
+                  {stocks.filter(isActive).map(stock => (
                     <div 
                       key={stock.id}
                       onClick={() => setSelectedStock(stock)}
@@ -246,7 +370,9 @@ const StockSimulation: React.FC<SimulationProps> = ({
                         color: selectedStock?.id === stock.id ? 'white' : 'black',
                       }}
                     >
-                      <div style={{ fontWeight: 'bold' }}>{stock.symbol}</div>
+                      <div style={{ fontWeight: 'bold' }}>
+                        {stock.symbol}{getTradingHaltReason(market, stock) && ' (HALTED)'}
+                      </div>
                       <div>{stock.name}</div>
                       <div>{formatCurrency(stock.price)}</div>
                     </div>
@@ -260,14 +386,65 @@ const StockSimulation: React.FC<SimulationProps> = ({
                 <Fieldset label={`${selectedStock.name} (${selectedStock.symbol})`}>
                   <div style={{ marginBottom: '8px' }}>
                     <div><strong>Current Price:</strong> {formatCurrency(selectedStock.price)}</div>
-                    <div><strong>Category:</strong> {selectedStock.category}</div>
+                    {lastBar && lastBar.open !== undefined && (
+                      <div>
+                        <strong>Last Bar:</strong> O {formatCurrency(lastBar.open)} H {formatCurrency(lastBar.high!)} L {formatCurrency(lastBar.low!)} C {formatCurrency(lastBar.price)} &middot; Vol {formatVolume(lastBar.volume)}
+                      </div>
+                    )}
+                    {quote && (
+                      <div>
+                        <strong>Bid/Ask:</strong> {formatCurrency(quote.bid)} / {formatCurrency(quote.ask)} &middot; <strong>Avg Volume:</strong> {formatVolume(Math.round(quote.volume))}
+                      </div>
+                    )}
+                    <div>
+                      <strong>Category:</strong> {selectedStock.category}
+                      {market.sectorReturns?.[selectedStock.category] !== undefined && (
+                        <span> ({formatPercent(Math.exp(market.sectorReturns[selectedStock.category]) - 1)} sector move)</span>
+                      )}
+                    </div>
                     <div><strong>Description:</strong> {selectedStock.description}</div>
+                    {pendingDeal && dealAcquirer && dealTarget && (
+                      <div>
+                        <strong>Pending Deal:</strong> {dealAcquirer.name} acquiring {dealTarget.name} for {formatCurrency(getDealValue(pendingDeal, dealAcquirer))} a share
+                        {pendingDeal.type === 'stock' ? ` (${pendingDeal.exchangeRatio.toFixed(3)} ${dealAcquirer.symbol} per share)` : ' in cash'}, closing {pendingDeal.closingDate}
+                      </div>
+                    )}
+                    {fundamentals && (
+                      <>
+                        <div>
+                          <strong>Quarterly Revenue:</strong> {formatMillions(fundamentals.revenue)} &middot; <strong>Net Income:</strong> {formatMillions(fundamentals.netIncome)}
+                        </div>
+                        <div>
+                          <strong>Cash:</strong> {formatMillions(fundamentals.cash)}
+                          {fundamentals.burnRate > 0
+                            ? <span> &middot; <strong>Burn:</strong> {formatMillions(fundamentals.burnRate)} a quarter ({runway > 0 ? `${runway.toFixed(1)} quarters of runway` : 'out of cash'})</span>
+                            : <span> &middot; Profitable</span>}
+                        </div>
+                        <div>
+                          {lastReport
+                            ? <span><strong>{lastReport.quarter}:</strong> revenue {formatMillions(lastReport.revenue)} vs {formatMillions(lastReport.consensusRevenue)} expected ({lastReport.revenue >= lastReport.consensusRevenue ? 'beat' : 'miss'}), </span>
+                            : null}
+                          <strong>Next Report:</strong> {fundamentals.nextReportDate}
+                        </div>
+                      </>
+                    )}
+                    {selectedStock.news.length > 0 && (
+                      <div>
+                        <strong>Recent News:</strong>
+                        {selectedStock.news.slice(0, 3).map(item => (
+                          <div key={item.id} style={{ color: item.impact === 'positive' ? 'green' : item.impact === 'negative' ? 'red' : 'inherit' }}>
+                            {item.date}: {item.headline}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   
                   <GraphContainer>
                     <StockChart 
                       data={selectedStock.priceHistory}
-                      stockName={selectedStock.symbol}
+                      stockName={selectedStock.splits?.length ? `${selectedStock.symbol} (split-adjusted)` : selectedStock.symbol}
+                      markers={chartMarkers}
                     />
                   </GraphContainer>
                   
@@ -284,23 +461,147 @@ const StockSimulation: React.FC<SimulationProps> = ({
                     </div>
                     
                     <div>
-                      <PrimaryButton onClick={buyStock} style={{ marginRight: '8px' }}>
+                      <PrimaryButton onClick={buyStock} disabled={!isTradable(selectedStock) || !!shorts[selectedStock.id]} style={{ marginRight: '8px' }}>
                         Buy
                       </PrimaryButton>
-                      <PrimaryButton onClick={sellStock}>
+                      <PrimaryButton onClick={sellStock} disabled={!isTradable(selectedStock)} style={{ marginRight: '8px' }}>
                         Sell
                       </PrimaryButton>
+                      <PrimaryButton onClick={shortStock} disabled={!isTradable(selectedStock) || !!portfolio[selectedStock.id]} style={{ marginRight: '8px' }}>
+                        Short
+                      </PrimaryButton>
+                      <PrimaryButton onClick={coverStock} disabled={!isTradable(selectedStock) || !shorts[selectedStock.id]}>
+                        Cover
+                      </PrimaryButton>
                     </div>
                   </div>
                   
+                  {tradeRejection && (
+                    <div style={{ marginTop: '8px', color: 'red' }}>Order rejected: {tradeRejection}</div>
+                  )}
+                  {tradeConfirmation?.stockId === selectedStock.id && (
+                    <div style={{ marginTop: '8px' }}>
+                      {tradeSideLabels[tradeConfirmation.side]} {tradeConfirmation.shares} {selectedStock.symbol} at {formatCurrency(tradeConfirmation.price)}
+                      {' '}(slippage {formatCurrency(tradeConfirmation.slippage || 0)})
+                    </div>
+                  )}
+                  
+                  <div style={{ display: 'flex', alignItems: 'center', marginTop: '8px' }}>
+                    <Select
+                      value={orderSide}
+                      onChange={(e) => setOrderSide(e.value as 'buy' | 'sell')}
+                      options={[{ value: 'buy', label: 'Buy' }, { value: 'sell', label: 'Sell' }]}
+                      width={80}
+                    />
+                    <Select
+                      value={orderType}
+                      onChange={(e) => setOrderType(e.value as OrderType)}
+                      options={orderTypes.map(type => ({ value: type.id, label: type.name }))}
+                      width={120}
+                    />
+                    <span style={{ margin: '0 4px 0 8px' }}>at $</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={triggerPrice}
+                      onChange={(e) => setTriggerPrice(e.target.value)}
+                      style={{ width: '70px' }}
+                    />
+                    {orderType === 'stop-limit' && (
+                      <>
+                        <span style={{ margin: '0 4px 0 8px' }}>limit $</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={limitPrice}
+                          onChange={(e) => setLimitPrice(e.target.value)}
+                          style={{ width: '70px' }}
+                        />
+                      </>
+                    )}
+                    <Select
+                      value={orderExpiry}
+                      onChange={(e) => setOrderExpiry(e.value as OrderExpiry)}
+                      options={[{ value: 'day', label: 'Day' }, { value: 'gtc', label: 'GTC' }]}
+                      width={80}
+                    />
+                    <PrimaryButton onClick={placeOrder} disabled={!isActive(selectedStock) || !(parseFloat(triggerPrice) > 0)} style={{ marginLeft: '8px' }}>
+                      Place Order
+                    </PrimaryButton>
+                  </div>
+                  
                   <div style={{ marginTop: '8px' }}>
                     <div><strong>You own:</strong> {portfolio[selectedStock.id] || 0} shares</div>
                     <div><strong>Value:</strong> {formatCurrency((portfolio[selectedStock.id] || 0) * selectedStock.price)}</div>
+                    {shorts[selectedStock.id] && (
+                      <div><strong>Short:</strong> {-shorts[selectedStock.id].shares} shares, {formatCurrency(-shorts[selectedStock.id].shares * selectedStock.price)} to cover</div>
+                    )}
+                    <div>
+                      <strong>Borrow Rate:</strong> {(getBorrowRate(selectedStock) * 100).toFixed(1)}% a year{isHardToBorrow(selectedStock) && ' (hard to borrow)'}
+                    </div>
                   </div>
                 </Fieldset>
               )}
             </div>
           </div>
+
+          <div style={{ marginTop: '16px' }}>
+            <OpenOrders orders={orders} stocks={stocks} onCancelOrder={onCancelOrder} />
+          </div>
+
+          {selectedStock && isActive(selectedStock) && (
+            <div style={{ marginTop: '16px' }}>
+              <OptionChain
+                key={selectedStock.id}
+                stock={selectedStock}
+                date={market.currentDate}
+                volatility={getEffectiveVolatility(selectedStock, settings)}
+                options={options}
+                disabled={gameOver || !isTradable(selectedStock)}
+                onBuyOption={onBuyOption}
+              />
+            </div>
+          )}
+
+          {announcedIpos.length > 0 && (
+            <div style={{ marginTop: '16px' }}>
+              <Fieldset label="IPO Calendar">
+                <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
+                  <span style={{ marginRight: '8px' }}>Shares to request:</span>
+                  <NumberInput
+                    value={allocationAmount}
+                    onChange={setAllocationAmount}
+                    min={1}
+                    max={10000}
+                    width={100}
+                  />
+                </div>
+                {announcedIpos.map(ipo => (
+                  <div
+                    key={ipo.stock.id}
+                    style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '4px 0', borderBottom: '1px solid #c0c0c0' }}
+                  >
+                    <div>
+                      <strong>{ipo.stock.symbol}</strong> {ipo.stock.name} &middot; {formatCurrency(ipo.offerPrice)} &middot; trades {ipo.listingDate}
+                      {ipoRequests[ipo.stock.id] && <span> &middot; Requested: {ipoRequests[ipo.stock.id]} shares</span>}
+                    </div>
+                    <div>
+                      <PrimaryButton
+                        onClick={() => onRequestIpo(ipo.stock.id, allocationAmount)}
+                        disabled={ipo.offerPrice * allocationAmount > cash}
+                        style={{ marginRight: '8px' }}
+                      >
+                        Request
+                      </PrimaryButton>
+                      <PrimaryButton onClick={() => onRequestIpo(ipo.stock.id, 0)} disabled={!ipoRequests[ipo.stock.id]}>
+                        Withdraw
+                      </PrimaryButton>
+                    </div>
+                  </div>
+                ))}
+              </Fieldset>
+            </div>
+          )}
         </div>
       </div>
       
@@ -318,11 +619,66 @@ const StockSimulation: React.FC<SimulationProps> = ({
           }}
         >
           <div style={{ padding: '16px', textAlign: 'center' }}>
-            <h2>The Dotcom Bubble Has Burst!</h2>
-            <p>The market has crashed and the dotcom bubble has come to an end.</p>
-            <p>Your final portfolio value: {formatCurrency(calculatePortfolioValue())}</p>
-            <p>Your final cash: {formatCurrency(cash)}</p>
-            <p>Total assets: {formatCurrency(cash + calculatePortfolioValue())}</p>
+            {result?.bankrupt ? (
+              <>
+                <h2>You're Bankrupt!</h2>
+                <p>Your net worth ran out on {market.currentDate}.</p>
+              </>
+            ) : market.bubbleStage === 'crash' ? (
+              <>
+                <h2>The Dotcom Bubble Has Burst!</h2>
+                <p>The market has crashed and the dotcom bubble has come to an end.</p>
+              </>
+            ) : (
+              <>
+                <h2>The Closing Bell Has Rung!</h2>
+                <p>Trading has ended on {market.currentDate}.</p>
+              </>
+            )}
+            {settlement ? (
+              <div style={{ textAlign: 'left' }}>
+                <p>Final settlement on {settlement.date}:</p>
+                {Object.entries(settlement.sales).map(([stockId, sale]) => (
+                  <div key={stockId}>
+                    Sold {sale.shares} {stocks.find(s => s.id === stockId)?.symbol || stockId} at {formatCurrency(sale.price)}: {formatCurrency(sale.shares * sale.price)}
+                  </div>
+                ))}
+                {Object.entries(settlement.covers).map(([stockId, cover]) => (
+                  <div key={stockId}>
+                    Covered {cover.shares} {stocks.find(s => s.id === stockId)?.symbol || stockId} at {formatCurrency(cover.price)}: {formatCurrency(-cover.shares * cover.price)}
+                  </div>
+                ))}
+                {settlement.options > 0 && <div>Options sold at their last mark: {formatCurrency(settlement.options)}</div>}
+                <p style={{ fontWeight: 'bold' }}>Total assets: {formatCurrency(settlement.cash)}</p>
+              </div>
+            ) : (
+              <>
+                <p>Your final portfolio value: {formatCurrency(calculatePortfolioValue())}</p>
+                <p>Your final cash: {formatCurrency(cash)}</p>
+                <p>Total assets: {formatCurrency(cash + calculatePortfolioValue())}</p>
+              </>
+            )}
+            {result && (
+              <div style={{ textAlign: 'left' }}>
+                <p style={{ fontWeight: 'bold' }}>
+                  {result.outcome === 'won' ? 'You Win!' : 'You Lose.'} Score: {result.score}
+                </p>
+                {result.objectives.map((status, index) => (
+                  <div key={index} style={{ color: status.status === 'met' ? 'green' : 'red' }}>
+                    {status.status === 'met' ? '✓' : '✗'} {describeObjective(status.objective)}{status.date ? ` (${status.date})` : ''}
+                  </div>
+                ))}
+                <div>Your return: {formatPercent(result.totalReturn)}; index: {formatPercent(result.indexReturn)}</div>
+                <div>Worst drawdown: {formatPercent(-result.maxDrawdown)}</div>
+                <div>Trade timing: {formatPercent(result.timing)}</div>
+              </div>
+            )}
+            {realIndexReturn !== undefined && (
+              <p>
+                {formatCurrency(STARTING_CASH)} in the real {HISTORICAL_INDEX_NAME} from {startDate} to {market.currentDate} would
+                be worth {formatCurrency(STARTING_CASH * realIndexReturn)} ({formatPercent(realIndexReturn - 1)}).
+              </p>
+            )}
             <PrimaryButton onClick={resetSimulation} style={{ marginTop: '16px' }}>
               Start New Game
             </PrimaryButton>
@@ -0,0 +1,133 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { Random } from './random';
+import { getSurvivalFactor } from './priceModels';
+import { getRunwayQuarters } from './fundamentals';
+
+// Company lifecycle: listed -> halted -> bankrupt, or listed -> delisted after
+// trading under a dollar for too long. Failed companies stay in the stock list so
+// their history can still be charted, but they no longer trade. Takeover targets end
+// up 'acquired' (see mergers.ts).
+
+export type StockStatus = 'listed' | 'halted' | 'delisted' | 'bankrupt' | 'acquired';
+
+export interface CompanyFailure {
+  stockId: string;
+  status: 'delisted' | 'bankrupt';
+}
+
+// Nasdaq's minimum bid rule: 30 consecutive sessions below $1 gets a company delisted
+const DELISTING_SESSIONS_BELOW_DOLLAR = 30;
+const BANKRUPTCY_BASE_HAZARD = 0.01;
+
+export const getStockStatus = (stock: Stock): StockStatus => {
+  return stock.status || 'listed';
+};
+
+export const isTradable = (stock: Stock): boolean => {
+  return getStockStatus(stock) === 'listed';
+};
+
+// Listed or temporarily halted; failed and acquired companies drop off the market list
+export const isActive = (stock: Stock): boolean => {
+  const status = getStockStatus(stock);
+  return status === 'listed' || status === 'halted';
+};
+
+// Chance per trading session that a listed company runs out of money. Only weak
+// businesses in a deflating market are at real risk, and a collapsed share price
+// (no way to raise more equity) makes it much worse. Stragglers keep failing while the
+// market bottoms out, though less often.
+const getBankruptcyHazard = (stock: Stock, market: MarketState): number => {
+  if (market.bubbleStage !== 'decline' && market.bubbleStage !== 'crash' && market.bubbleStage !== 'bottom') return 0;
+
+  const weakness = 1 - getSurvivalFactor(stock.survivalChance);
+  const peak = Math.max(stock.initialPrice, ...stock.priceHistory.map(point => point.price));
+  const drawdown = 1 - stock.price / peak;
+
+  let hazard = BANKRUPTCY_BASE_HAZARD * weakness * weakness;
+  if (market.bubbleStage === 'crash') hazard *= 1 + 2 * market.crashSeverity;
+  if (market.bubbleStage === 'bottom') hazard *= 0.5;
+  if (drawdown > 0.9) hazard *= 3;
+  if (stock.price < 1) hazard *= 3;
+  // Less than a quarter of cash left at the current burn rate
+  if (stock.fundamentals && getRunwayQuarters(stock.fundamentals) < 1) hazard *= 3;
+
+  return hazard;
+};
+
+const createLifecycleNews = (stock: Stock, date: string, status: StockStatus): NewsItem => {
+  switch (status) {
+    case 'halted':
+      return {
+        id: `halt-${stock.id}-${date}`,
+        date,
+        headline: `Trading Halted in ${stock.name} (${stock.symbol}) Pending News`,
+        content: `${stock.name} shares were halted this morning as the company's lenders met to discuss its dwindling cash position. Sources say a restructuring announcement is imminent.`,
+        impact: 'negative',
+        stockId: stock.id,
+      };
+    case 'bankrupt':
+      return {
+        id: `bankrupt-${stock.id}-${date}`,
+        date,
+        headline: `${stock.name} Files for Chapter 11, Shares Cancelled`,
+        content: `${stock.name} has filed for bankruptcy protection after burning through its remaining cash. The company said common shareholders are not expected to receive any recovery.`,
+        impact: 'negative',
+        stockId: stock.id,
+      };
+    default:
+      return {
+        id: `delisted-${stock.id}-${date}`,
+        date,
+        headline: `Nasdaq Delists ${stock.name} (${stock.symbol})`,
+        content: `After more than ${DELISTING_SESSIONS_BELOW_DOLLAR} sessions trading below $1, ${stock.name} has been removed from the Nasdaq. Its shares are now effectively worthless to most investors.`,
+        impact: 'negative',
+        stockId: stock.id,
+      };
+  }
+};
+
+// Applies one step of lifecycle rules after prices have moved
+export const updateLifecycle = (
+  stocks: Stock[],
+  market: MarketState,
+  random: Random,
+  sessions: number
+): { stocks: Stock[]; news: NewsItem[]; failures: CompanyFailure[] } => {
+  const news: NewsItem[] = [];
+  const failures: CompanyFailure[] = [];
+  const date = market.currentDate;
+
+  const updatedStocks = stocks.map(stock => {
+    const status = getStockStatus(stock);
+
+    if (status === 'halted') {
+      // A halted company never comes back: the filing follows on the next step
+      const item = createLifecycleNews(stock, date, 'bankrupt');
+      news.push(item);
+      failures.push({ stockId: stock.id, status: 'bankrupt' });
+      return { ...stock, status: 'bankrupt' as StockStatus, statusDate: date, price: 0, news: [item, ...stock.news] };
+    }
+
+    if (status !== 'listed') return stock;
+
+    const sessionsBelowDollar = stock.price < 1 ? (stock.sessionsBelowDollar || 0) + sessions : 0;
+
+    if (random.next() < getBankruptcyHazard(stock, market) * sessions) {
+      const item = createLifecycleNews(stock, date, 'halted');
+      news.push(item);
+      return { ...stock, status: 'halted' as StockStatus, statusDate: date, sessionsBelowDollar, news: [item, ...stock.news] };
+    }
+
+    if (sessionsBelowDollar >= DELISTING_SESSIONS_BELOW_DOLLAR) {
+      const item = createLifecycleNews(stock, date, 'delisted');
+      news.push(item);
+      failures.push({ stockId: stock.id, status: 'delisted' });
+      return { ...stock, status: 'delisted' as StockStatus, statusDate: date, sessionsBelowDollar, news: [item, ...stock.news] };
+    }
+
+    return { ...stock, sessionsBelowDollar };
+  });
+
+  return { stocks: updatedStocks, news, failures };
+};
@@ -0,0 +1,14 @@
+import { addMonths, getExDividendDates } from './dividends';
+
+test('stepping months clamps to the end of shorter months', () => {
+  expect(addMonths('1999-11-30', 3)).toBe('2000-02-29');
+  expect(addMonths('2000-11-30', 3)).toBe('2001-02-28');
+  expect(addMonths('1999-08-31', 1)).toBe('1999-09-30');
+  expect(addMonths('1999-10-15', 14)).toBe('2000-12-15');
+});
+
+test('ex-dates fall on trading days at even intervals from the first', () => {
+  const policy = { amount: 0.1, paymentsPerYear: 4, firstExDate: '1999-11-30' };
+  // 2000-02-29 is a Tuesday; 2000-05-30 and 2000-08-30 follow the original day
+  expect(getExDividendDates(policy, '1999-12-01', '2000-09-30')).toEqual(['2000-02-29', '2000-05-30', '2000-08-30']);
+});
@@ -0,0 +1,120 @@
+import { Stock, NewsItem, PricePoint } from './stockMarketSimulation';
+import { isTradable } from './companyLifecycle';
+import { addTradingDays, toTradingDay } from './tradingCalendar';
+
+// Cash dividends for companies that pay them. A policy in the company data fixes the
+// amount and the ex-dividend dates; whoever holds the shares going into the ex-date is
+// on the record and gets paid a few weeks later, and the stock opens lower by the amount
+// on the ex-date. None of the companies in the bundled data paid a dividend between 1998
+// and 2005, so none of them has a policy, and the game screens don't show dividends; the
+// engine still pays them on a stock that's given one.
+
+export interface DividendPolicy {
+  // Cash per share per payment
+  amount: number;
+  paymentsPerYear: number;
+  // Later ex-dates follow at even intervals from this one
+  firstExDate: string;
+}
+
+// A dividend the player is owed but hasn't been paid yet
+export interface DividendPayment {
+  stockId: string;
+  exDate: string;
+  payDate: string;
+  // Negative when it is owed on a short position
+  amount: number;
+}
+
+// Sessions between the ex-date and the payment date
+const PAY_DELAY_SESSIONS = 20;
+
+// Same day of the month `months` later, or the month's last day when it is shorter
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part));
+  const totalMonths = (month - 1) + months;
+  const newYear = year + Math.floor(totalMonths / 12);
+  const newMonth = (totalMonths % 12) + 1;
+  const daysInMonth = new Date(Date.UTC(newYear, newMonth, 0)).getUTCDate();
+  const newDay = Math.min(day, daysInMonth);
+  return `${newYear}-${newMonth.toString().padStart(2, '0')}-${newDay.toString().padStart(2, '0')}`;
+};
+
+// Ex-dividend sessions after `from` up to and including `to`
+export const getExDividendDates = (policy: DividendPolicy, from: string, to: string): string[] => {
+  const interval = Math.round(12 / policy.paymentsPerYear);
+  const dates: string[] = [];
+
+  for (let i = 0; ; i++) {
+    const exDate = toTradingDay(addMonths(policy.firstExDate, i * interval));
+    if (exDate > to) break;
+    if (exDate > from) dates.push(exDate);
+  }
+
+  return dates;
+};
+
+const scaleBar = (bar: PricePoint, factor: number, dividend: number): PricePoint => ({
+  ...bar,
+  price: bar.price * factor,
+  open: bar.open !== undefined ? bar.open * factor : undefined,
+  high: bar.high !== undefined ? bar.high * factor : undefined,
+  low: bar.low !== undefined ? bar.low * factor : undefined,
+  dividend,
+});
+
+const createDividendNews = (stock: Stock, date: string, amount: number): NewsItem => ({
+  id: `dividend-${stock.id}-${date}`,
+  date,
+  headline: `${stock.name} Goes Ex-Dividend at $${amount.toFixed(2)} a Share`,
+  content: `${stock.name} (${stock.symbol}) shares traded without their quarterly dividend today. Holders of record will be paid $${amount.toFixed(2)} a share in cash, a rare perk among technology companies.`,
+  impact: 'neutral',
+  stockId: stock.id,
+});
+
+// Applies ex-dates that fell within the step from `previousDate` to `date`. The whole
+// session is marked down by the dividend, since the stock opens without it. Entitlements
+// come from `positions` as they stood going into the step; a short (negative) position
+// owes the dividend to the lender instead.
+export const updateDividends = (
+  stocks: Stock[],
+  positions: {[stockId: string]: number},
+  previousDate: string,
+  date: string
+): { stocks: Stock[]; payments: DividendPayment[]; news: NewsItem[] } => {
+  const payments: DividendPayment[] = [];
+  const news: NewsItem[] = [];
+
+  const updatedStocks = stocks.map(stock => {
+    const policy = stock.dividendPolicy;
+    if (!policy || !isTradable(stock)) return stock;
+
+    const exDates = getExDividendDates(policy, previousDate, date);
+    if (exDates.length === 0) return stock;
+
+    const dividend = policy.amount * exDates.length;
+    const previousClose = stock.priceHistory.length > 1 ? stock.priceHistory[stock.priceHistory.length - 2].price : stock.price;
+    const factor = Math.max(0.5, 1 - dividend / previousClose);
+    const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+
+    const shares = positions[stock.id] || 0;
+    exDates.forEach(exDate => {
+      if (shares !== 0) {
+        payments.push({ stockId: stock.id, exDate, payDate: addTradingDays(exDate, PAY_DELAY_SESSIONS), amount: policy.amount * shares });
+      }
+    });
+
+    const item = createDividendNews(stock, date, dividend);
+    news.push(item);
+
+    return {
+      ...stock,
+      price: stock.price * factor,
+      priceHistory: [...stock.priceHistory.slice(0, -1), scaleBar(lastBar, factor, dividend)],
+      sessionTicks: stock.sessionTicks?.map(tick => ({ ...tick, price: tick.price * factor })),
+      news: [item, ...stock.news],
+    };
+  });
+
+  return { stocks: updatedStocks, payments, news };
+};
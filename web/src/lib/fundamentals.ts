@@ -0,0 +1,251 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { Random } from './random';
+import { toTradingDay } from './tradingCalendar';
+import { getSectorProfile } from './sectorFactors';
+
+// Company fundamentals and earnings season. Every company reports a quarter's revenue
+// and net income a few weeks after the quarter ends. Results are compared with the
+// analysts' consensus, and the stock gaps up or down on a beat or a miss. Losses come
+// out of the cash pile, so a cash-burning dotcom can run out of runway.
+// All amounts are in millions of dollars.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface QuarterlyReport {
+  // e.g. '1999 Q3'
+  quarter: string;
+  date: string;
+  revenue: number;
+  netIncome: number;
+  consensusRevenue: number;
+  consensusNetIncome: number;
+}
+
+export interface Fundamentals {
+  // Latest reported quarter
+  revenue: number;
+  netIncome: number;
+  cash: number;
+  // Cash lost per quarter; zero once the company makes money
+  burnRate: number;
+  // Quarter-on-quarter revenue growth, which analysts extrapolate
+  revenueGrowth: number;
+  lastReport?: QuarterlyReport;
+  nextReportDate: string;
+}
+
+interface FundamentalsProfile {
+  revenue: [number, number];
+  margin: [number, number];
+  cash: [number, number];
+}
+
+const PROFILES: { [survival in Stock['survivalChance']]: FundamentalsProfile } = {
+  'very low': { revenue: [2, 15], margin: [-3, -1], cash: [50, 200] },
+  'low': { revenue: [5, 40], margin: [-1.5, -0.5], cash: [100, 300] },
+  'medium': { revenue: [20, 100], margin: [-0.6, -0.1], cash: [100, 500] },
+  'high': { revenue: [100, 500], margin: [-0.1, 0.1], cash: [300, 1500] },
+  'very high': { revenue: [300, 2500], margin: [0.05, 0.25], cash: [1000, 5000] },
+};
+
+// Quarterly revenue growth for a fully speculative business in each stage
+const STAGE_GROWTH: { [stage in BubbleStage]: number } = {
+  early: 0.15,
+  growth: 0.25,
+  mania: 0.35,
+  peak: 0.2,
+  decline: -0.05,
+  crash: -0.15,
+  bottom: 0,
+  recovery: 0.08,
+};
+
+// Price reaction to a surprise is capped; the mood of the market tilts it
+const MAX_REACTION = 0.4;
+const STAGE_REACTION_BIAS: { [stage in BubbleStage]: number } = {
+  early: 0,
+  growth: 0.01,
+  mania: 0.03,
+  peak: 0,
+  decline: -0.02,
+  crash: -0.04,
+  bottom: -0.01,
+  recovery: 0.01,
+};
+
+const QUARTER_END_MONTHS = [3, 6, 9, 12];
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// Each company reports on its own day, 15 to 35 days after the quarter ends
+const getReportOffset = (stockId: string): number => {
+  const hash = stockId.split('').reduce((total, char) => total + char.charCodeAt(0), 0);
+  return 15 + (hash % 21);
+};
+
+const getReportDate = (stockId: string, year: number, quarterEndMonth: number): string => {
+  const quarterEnd = new Date(Date.UTC(year, quarterEndMonth, 0));
+  quarterEnd.setUTCDate(quarterEnd.getUTCDate() + getReportOffset(stockId));
+  return toTradingDay(quarterEnd.toISOString().split('T')[0]);
+};
+
+// The first report date strictly after `date`
+export const getNextReportDate = (stockId: string, date: string): string => {
+  const year = parseInt(date.split('-')[0]);
+  for (let y = year - 1; y <= year + 1; y++) {
+    for (const month of QUARTER_END_MONTHS) {
+      const reportDate = getReportDate(stockId, y, month);
+      if (reportDate > date) return reportDate;
+    }
+  }
+  return getReportDate(stockId, year + 2, 3);
+};
+
+// The quarter a report on `date` covers
+const getReportedQuarter = (date: string): string => {
+  const [year, month] = date.split('-').map(part => parseInt(part));
+  const quarter = Math.floor((month - 1) / 3);
+  return quarter === 0 ? `${year - 1} Q4` : `${year} Q${quarter}`;
+};
+
+export const createFundamentals = (stock: Stock, date: string, random: Random): Fundamentals => {
+  const profile = PROFILES[stock.survivalChance];
+  const revenue = random.float(profile.revenue[0], profile.revenue[1]);
+  const netIncome = revenue * random.float(profile.margin[0], profile.margin[1]);
+
+  return {
+    revenue,
+    netIncome,
+    cash: random.float(profile.cash[0], profile.cash[1]),
+    burnRate: Math.max(0, -netIncome),
+    revenueGrowth: STAGE_GROWTH.early * getSectorProfile(stock.category).speculation,
+    nextReportDate: getNextReportDate(stock.id, date),
+  };
+};
+
+// Quarters of cash left at the current burn rate
+export const getRunwayQuarters = (fundamentals: Fundamentals): number => {
+  return fundamentals.burnRate > 0 ? fundamentals.cash / fundamentals.burnRate : Infinity;
+};
+
+const formatMillions = (amount: number): string => {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(1)}M`;
+};
+
+const createEarningsNews = (stock: Stock, report: QuarterlyReport, reaction: number): NewsItem => {
+  const beat = report.revenue >= report.consensusRevenue && report.netIncome >= report.consensusNetIncome;
+  const miss = report.revenue < report.consensusRevenue && report.netIncome < report.consensusNetIncome;
+  const result = beat ? 'Beats' : miss ? 'Misses' : 'Mixed on';
+
+  return {
+    id: `earnings-${stock.id}-${report.date}`,
+    date: report.date,
+    headline: `${stock.name} ${result} ${report.quarter} Estimates; Shares ${reaction >= 0 ? 'Rise' : 'Fall'} ${Math.abs(Math.round(reaction * 100))}%`,
+    content: `${stock.name} reported revenue of ${formatMillions(report.revenue)} against a consensus of ${formatMillions(report.consensusRevenue)}, and net income of ${formatMillions(report.netIncome)} versus ${formatMillions(report.consensusNetIncome)} expected.`,
+    impact: reaction > 0.01 ? 'positive' : reaction < -0.01 ? 'negative' : 'neutral',
+    stockId: stock.id,
+  };
+};
+
+// Simulates one quarter for the company and the market's reaction to it
+const reportQuarter = (
+  stock: Stock,
+  fundamentals: Fundamentals,
+  market: MarketState,
+  random: Random
+): { fundamentals: Fundamentals; report: QuarterlyReport; reaction: number } => {
+  const profile = PROFILES[stock.survivalChance];
+  const speculation = getSectorProfile(stock.category).speculation;
+  const date = fundamentals.nextReportDate;
+
+  // Analysts extrapolate the last quarter and assume margins hold
+  const previousMargin = fundamentals.revenue > 0 ? fundamentals.netIncome / fundamentals.revenue : 0;
+  const consensusRevenue = fundamentals.revenue * (1 + fundamentals.revenueGrowth);
+  const consensusNetIncome = consensusRevenue * previousMargin;
+
+  // Growth follows the cycle; margins drift back towards what the business can sustain
+  const revenueGrowth = STAGE_GROWTH[market.bubbleStage] * (0.5 + speculation) + 0.1 * random.normal();
+  const revenue = Math.max(0.1, fundamentals.revenue * (1 + revenueGrowth));
+  const targetMargin = (profile.margin[0] + profile.margin[1]) / 2;
+  const margin = previousMargin + 0.3 * (targetMargin - previousMargin) + 0.05 * random.normal();
+  const netIncome = revenue * margin;
+
+  const revenueSurprise = revenue / consensusRevenue - 1;
+  const incomeSurprise = clamp((netIncome - consensusNetIncome) / Math.max(Math.abs(consensusNetIncome), 0.1 * consensusRevenue), -1, 1);
+  const reaction = clamp(
+    1.5 * revenueSurprise + 0.15 * incomeSurprise + STAGE_REACTION_BIAS[market.bubbleStage] + 0.03 * random.normal(),
+    -MAX_REACTION,
+    MAX_REACTION
+  );
+
+  const report: QuarterlyReport = {
+    quarter: getReportedQuarter(date),
+    date,
+    revenue,
+    netIncome,
+    consensusRevenue,
+    consensusNetIncome,
+  };
+
+  return {
+    fundamentals: {
+      revenue,
+      netIncome,
+      cash: fundamentals.cash + netIncome,
+      burnRate: Math.max(0, -netIncome),
+      revenueGrowth,
+      lastReport: report,
+      nextReportDate: getNextReportDate(stock.id, date),
+    },
+    report,
+    reaction,
+  };
+};
+
+// Reports every quarter that came due within the step ending on the market's date. The
+// reaction gaps the whole session, since results come out before the open.
+export const updateEarnings = (
+  stocks: Stock[],
+  market: MarketState,
+  random: Random
+): { stocks: Stock[]; news: NewsItem[] } => {
+  const news: NewsItem[] = [];
+
+  const updatedStocks = stocks.map(stock => {
+    if (!stock.fundamentals || stock.status !== 'listed' || stock.fundamentals.nextReportDate > market.currentDate) {
+      return stock;
+    }
+
+    let fundamentals = stock.fundamentals;
+    let factor = 1;
+    const items: NewsItem[] = [];
+    while (fundamentals.nextReportDate <= market.currentDate) {
+      const result = reportQuarter(stock, fundamentals, market, random);
+      fundamentals = result.fundamentals;
+      factor *= Math.exp(result.reaction);
+      items.unshift(createEarningsNews(stock, result.report, result.reaction));
+    }
+    news.push(...items);
+
+    const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+    return {
+      ...stock,
+      fundamentals,
+      price: stock.price * factor,
+      priceHistory: [
+        ...stock.priceHistory.slice(0, -1),
+        {
+          ...lastBar,
+          price: lastBar.price * factor,
+          open: lastBar.open !== undefined ? lastBar.open * factor : undefined,
+          high: lastBar.high !== undefined ? lastBar.high * factor : undefined,
+          low: lastBar.low !== undefined ? lastBar.low * factor : undefined,
+        },
+      ],
+      sessionTicks: stock.sessionTicks?.map(tick => ({ ...tick, price: tick.price * factor })),
+      news: [...items, ...stock.news],
+    };
+  });
+
+  return { stocks: updatedStocks, news };
+};
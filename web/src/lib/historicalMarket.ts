@@ -0,0 +1,196 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { Random } from './random';
+import historicalPrices from '../data/historical-prices.json';
+
+// Historical replay. Instead of the hand-tuned calendar brackets and random crash, the
+// index follows the real Nasdaq Composite and the bubble stages follow what actually
+// happened. The bundled series are rounded month-end closes plus a handful of famous
+// days; the sessions in between are interpolated and synthetic noise fills in the daily
+// wiggle. Stock series are split-adjusted, and only their shape matters: a company
+// tracks its real returns from whatever price it had when it entered the series.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export type MarketMode = 'synthetic' | 'historical';
+
+export const marketModes: { id: MarketMode; name: string }[] = [
+  { id: 'synthetic', name: 'Synthetic' },
+  { id: 'historical', name: 'Historical Replay' },
+];
+
+// [date, close] pairs in date order
+type HistoricalSeries = [string, number][];
+
+const INDEX_SERIES = historicalPrices.index.closes as HistoricalSeries;
+const STOCK_SERIES = historicalPrices.stocks as unknown as { [stockId: string]: HistoricalSeries };
+
+export const HISTORICAL_INDEX_NAME = historicalPrices.index.name;
+export const HISTORICAL_END_DATE = INDEX_SERIES[INDEX_SERIES.length - 1][0];
+
+// What really happened, by the date each stage began
+const HISTORICAL_STAGES: { from: string; stage: BubbleStage }[] = [
+  { from: '1900-01-01', stage: 'early' },
+  // The rally after the autumn 1998 low
+  { from: '1998-10-09', stage: 'growth' },
+  { from: '1999-06-01', stage: 'mania' },
+  { from: '2000-01-01', stage: 'peak' },
+  // The Nasdaq closed at its all-time high on March 10
+  { from: '2000-03-13', stage: 'decline' },
+  // The worst week in its history ended on April 14
+  { from: '2000-04-14', stage: 'crash' },
+  // Grinding lower into the October 2002 low, then the rally off the March 2003 retest
+  { from: '2002-06-03', stage: 'bottom' },
+  { from: '2003-03-12', stage: 'recovery' },
+];
+
+// Same moods as the synthetic calendar
+const STAGE_MOOD: { [stage in BubbleStage]: { volatility: number; sentiment: number } } = {
+  early: { volatility: 0.2, sentiment: 0.6 },
+  growth: { volatility: 0.3, sentiment: 0.7 },
+  mania: { volatility: 0.5, sentiment: 0.85 },
+  peak: { volatility: 0.7, sentiment: 0.85 },
+  decline: { volatility: 0.8, sentiment: 0.4 },
+  crash: { volatility: 1.0, sentiment: 0.15 },
+  bottom: { volatility: 0.6, sentiment: 0.3 },
+  recovery: { volatility: 0.4, sentiment: 0.55 },
+};
+
+const HISTORICAL_HEADLINES: Omit<NewsItem, 'id'>[] = [
+  {
+    date: '1998-10-08',
+    headline: 'Nasdaq Tumbles as Hedge Fund Crisis Rattles Wall Street',
+    content: 'Technology stocks slid to their lowest level of the year as the rescue of Long-Term Capital Management left investors fearing a credit crunch. The Federal Reserve is expected to cut rates again.',
+    impact: 'negative',
+  },
+  {
+    date: '2000-01-10',
+    headline: 'AOL to Buy Time Warner in Largest Merger Ever',
+    content: 'America Online agreed to acquire Time Warner in a stock deal valued at about $165 billion, a sign of how much buying power internet shares have handed their owners.',
+    impact: 'positive',
+  },
+  {
+    date: '2000-03-10',
+    headline: 'Nasdaq Closes Above 5,000 for the First Time',
+    content: 'The technology-heavy index finished at a record 5,048.62, having doubled in little more than a year. Skeptics say valuations have lost touch with reality.',
+    impact: 'positive',
+  },
+  {
+    date: '2000-04-14',
+    headline: 'Nasdaq Suffers Worst Week in Its History',
+    content: 'The Nasdaq lost a quarter of its value this week, closing down almost 10% on Friday alone as hotter-than-expected inflation data triggered margin calls across the technology sector.',
+    impact: 'negative',
+  },
+  {
+    date: '2001-09-17',
+    headline: 'Markets Reopen After Terrorist Attacks',
+    content: 'U.S. stock markets traded for the first time since the September 11 attacks, and the selling was heavy despite an emergency interest rate cut by the Federal Reserve before the opening bell.',
+    impact: 'negative',
+  },
+  {
+    date: '2002-10-09',
+    headline: 'Nasdaq Sinks to Six-Year Low',
+    content: 'The Nasdaq closed at 1,114, down 78% from its March 2000 peak, erasing every gain of the internet era.',
+    impact: 'negative',
+  },
+];
+
+const NASDAQ_PEAK = 5048.6;
+
+// Daily deviation from the interpolated real path
+const INDEX_NOISE = 0.01;
+const STOCK_NOISE = 0.02;
+// Share of a stock's deviation from its real path that survives each session, so news
+// and corporate events fade back into what actually happened
+const DEVIATION_PERSISTENCE = 0.5;
+
+// Log-linear interpolation between the two closes around `date`; undefined outside the series
+const getSeriesValue = (series: HistoricalSeries, date: string): number | undefined => {
+  if (series.length === 0 || date < series[0][0] || date > series[series.length - 1][0]) return undefined;
+
+  const after = series.findIndex(([pointDate]) => pointDate >= date);
+  const [afterDate, afterValue] = series[after];
+  if (afterDate === date || after === 0) return afterValue;
+
+  const [beforeDate, beforeValue] = series[after - 1];
+  const span = new Date(afterDate).getTime() - new Date(beforeDate).getTime();
+  const weight = (new Date(date).getTime() - new Date(beforeDate).getTime()) / span;
+  return beforeValue * Math.pow(afterValue / beforeValue, weight);
+};
+
+export const getHistoricalIndex = (date: string): number | undefined => getSeriesValue(INDEX_SERIES, date);
+
+// Growth of $1 held in the real index between the two dates
+export const getHistoricalIndexReturn = (from: string, to: string): number | undefined => {
+  const start = getHistoricalIndex(from);
+  const end = getHistoricalIndex(to);
+  return start && end ? end / start : undefined;
+};
+
+export const getHistoricalStage = (date: string): BubbleStage => {
+  let stage: BubbleStage = 'early';
+  HISTORICAL_STAGES.forEach(entry => {
+    if (entry.from <= date) stage = entry.stage;
+  });
+  return stage;
+};
+
+// Stage, mood, index level and headlines for the step ending on `date`. The game's index
+// keeps its own starting level and moves with the real one from there.
+export const getHistoricalMarket = (
+  prevMarket: MarketState,
+  date: string,
+  random: Random
+): {
+  bubbleStage: BubbleStage;
+  volatility: number;
+  sentiment: number;
+  crashSeverity: number;
+  marketIndex: number | undefined;
+  news: NewsItem[];
+} => {
+  const bubbleStage = getHistoricalStage(date);
+  const mood = STAGE_MOOD[bubbleStage];
+  const start = prevMarket.marketIndexHistory[0];
+  const growth = getHistoricalIndexReturn(start.date, date);
+  const real = getHistoricalIndex(date);
+
+  return {
+    bubbleStage,
+    volatility: mood.volatility,
+    sentiment: Math.min(1, Math.max(0, mood.sentiment + random.float(-0.1, 0.1))),
+    crashSeverity: real ? Math.min(1, Math.max(0.5, (1 - real / NASDAQ_PEAK) / 0.78)) : prevMarket.crashSeverity,
+    marketIndex: growth ? start.price * growth * Math.exp(INDEX_NOISE * random.normal()) : undefined,
+    news: HISTORICAL_HEADLINES
+      .filter(item => item.date > prevMarket.currentDate && item.date <= date)
+      .reverse()
+      .map(item => ({ ...item, id: `history-${item.date}`, date })),
+  };
+};
+
+// Next close for a stock with a real series covering the step, or undefined to leave it
+// to the price model. `historicalScale` ties the game's price to the series and is fixed
+// the first time the stock trades inside it.
+export const getHistoricalStockPrice = (
+  stock: Stock,
+  date: string,
+  volatilityFactor: number,
+  random: Random,
+  sessions: number
+): { price: number; historicalScale: number } | undefined => {
+  const series = STOCK_SERIES[stock.id];
+  const previousDate = stock.priceHistory[stock.priceHistory.length - 1]?.date;
+  if (!series || !previousDate) return undefined;
+
+  const previous = getSeriesValue(series, previousDate);
+  const next = getSeriesValue(series, date);
+  if (!previous || !next) return undefined;
+
+  const historicalScale = stock.historicalScale ?? stock.price / previous;
+  const deviation = Math.log(stock.price / (historicalScale * previous));
+  const persistence = Math.pow(DEVIATION_PERSISTENCE, sessions);
+
+  return {
+    price: historicalScale * next * Math.exp(persistence * deviation + STOCK_NOISE * volatilityFactor * random.normal()),
+    historicalScale,
+  };
+};
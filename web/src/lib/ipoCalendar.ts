@@ -0,0 +1,153 @@
+import { Stock, MarketState, NewsItem, SimulationSettings } from './stockMarketSimulation';
+import { Random } from './random';
+import { addTradingDays } from './tradingCalendar';
+import { buildSessionTicks, toPriceBar, getBaseVolume } from './sessionBars';
+import { getVolatilityFactor } from './priceModels';
+import { getSectorProfile } from './sectorFactors';
+
+// IPO calendar: companies with a `listingDate` after the game starts wait here until
+// that session, when they join the market at their offer price (`initialPrice`) and
+// trade for the first time. Terms are announced a couple of weeks ahead so the player
+// can ask their broker for an allocation at the offer price.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface UpcomingIpo {
+  stock: Stock;
+  listingDate: string;
+  offerPrice: number;
+  announced: boolean;
+}
+
+export interface IpoDebut {
+  stockId: string;
+  offerPrice: number;
+  // First-day close over the offer price, minus one
+  pop: number;
+}
+
+// Terms are set roughly two weeks before the first trade
+const IPO_ANNOUNCEMENT_SESSIONS = 10;
+
+// Mean first-day log return for a fully speculative deal in each stage
+const STAGE_POP: { [stage in BubbleStage]: number } = {
+  early: 0.2,
+  growth: 0.35,
+  mania: 0.6,
+  peak: 0.5,
+  decline: 0.05,
+  crash: -0.05,
+  bottom: 0,
+  recovery: 0.15,
+};
+
+// Companies that list after the start date go on the calendar, the rest trade from day one
+export const splitIpoCalendar = (stocks: Stock[], startDate: string): { listed: Stock[]; upcoming: UpcomingIpo[] } => {
+  const listed: Stock[] = [];
+  const upcoming: UpcomingIpo[] = [];
+
+  stocks.forEach(stock => {
+    if (stock.listingDate && stock.listingDate > startDate) {
+      upcoming.push({ stock, listingDate: stock.listingDate, offerPrice: stock.initialPrice, announced: false });
+    } else {
+      listed.push(stock);
+    }
+  });
+
+  upcoming.sort((a, b) => a.listingDate.localeCompare(b.listingDate));
+  return { listed, upcoming };
+};
+
+// Rebuilds the calendar for a saved game: drops companies that already trade and
+// treats deals inside the announcement window as announced
+export const resumeIpoCalendar = (calendar: UpcomingIpo[], stocks: Stock[], currentDate: string): UpcomingIpo[] => {
+  const announceBefore = addTradingDays(currentDate, IPO_ANNOUNCEMENT_SESSIONS);
+
+  return calendar
+    .filter(ipo => !stocks.some(stock => stock.id === ipo.stock.id))
+    .map(ipo => ({ ...ipo, announced: ipo.listingDate <= announceBefore }));
+};
+
+// Hot deals are oversubscribed, so the hotter the debut the smaller the allocation
+export const getAllocationRatio = (pop: number): number => {
+  return Math.min(1, Math.max(0.1, 1 / (1 + 2 * Math.max(0, pop))));
+};
+
+const formatPrice = (price: number): string => `$${price.toFixed(2)}`;
+
+const createAnnouncementNews = (ipo: UpcomingIpo, date: string): NewsItem => ({
+  id: `ipo-terms-${ipo.stock.id}`,
+  date,
+  headline: `${ipo.stock.name} Prices IPO at ${formatPrice(ipo.offerPrice)} a Share`,
+  content: `${ipo.stock.name} will begin trading on the Nasdaq on ${ipo.listingDate}. Brokerage customers can request an allocation at the offer price before the opening bell.`,
+  impact: 'neutral',
+  stockId: ipo.stock.id,
+});
+
+const createDebutNews = (stock: Stock, date: string, pop: number): NewsItem => ({
+  id: `ipo-debut-${stock.id}`,
+  date,
+  headline: pop >= 0
+    ? `${stock.name} Soars ${Math.round(pop * 100)}% in Nasdaq Debut`
+    : `${stock.name} Breaks Issue Price in Disappointing Debut`,
+  content: pop >= 0
+    ? `Shares of ${stock.name} (${stock.symbol}) closed their first day of trading at ${formatPrice(stock.price)}, well above the ${formatPrice(stock.initialPrice)} offer price, as investors scrambled for a piece of the latest internet darling.`
+    : `${stock.name} (${stock.symbol}) closed its first session at ${formatPrice(stock.price)}, below its ${formatPrice(stock.initialPrice)} offer price, a sign that investors' appetite for new internet issues is fading.`,
+  impact: pop >= 0 ? 'positive' : 'negative',
+  stockId: stock.id,
+});
+
+// Announces terms for deals coming up and lists the ones whose date has arrived.
+// `market` is the state already advanced for this step; debuts trade on its date.
+export const updateIpoCalendar = (
+  calendar: UpcomingIpo[],
+  market: MarketState,
+  settings: SimulationSettings,
+  random: Random,
+  ticks: number
+): { calendar: UpcomingIpo[]; listings: Stock[]; debuts: IpoDebut[]; news: NewsItem[] } => {
+  const date = market.currentDate;
+  const announceBefore = addTradingDays(date, IPO_ANNOUNCEMENT_SESSIONS);
+  const remaining: UpcomingIpo[] = [];
+  const listings: Stock[] = [];
+  const debuts: IpoDebut[] = [];
+  const news: NewsItem[] = [];
+
+  calendar.forEach(ipo => {
+    if (ipo.listingDate > date) {
+      if (!ipo.announced && ipo.listingDate <= announceBefore) {
+        news.push(createAnnouncementNews(ipo, date));
+        remaining.push({ ...ipo, announced: true });
+      } else {
+        remaining.push(ipo);
+      }
+      return;
+    }
+
+    // The opening trade gaps away from the offer price, then the stock trades all day
+    const { stock, offerPrice } = ipo;
+    const volatilityFactor = getVolatilityFactor(stock.volatility);
+    const speculation = getSectorProfile(stock.category).speculation;
+    const openPrice = offerPrice * Math.exp(STAGE_POP[market.bubbleStage] * (0.5 + speculation) + 0.3 * random.normal());
+    const close = openPrice * Math.exp(0.05 * volatilityFactor * random.normal());
+    const sessionTicks = buildSessionTicks(date, openPrice, close, ticks, 0.01 * volatilityFactor * settings.volatilityFactor, random);
+    // Most of the float changes hands on the first day
+    const volume = Math.round(getBaseVolume(stock) * random.float(4, 8));
+
+    const listed: Stock = {
+      ...stock,
+      price: close,
+      status: 'listed',
+      priceHistory: [toPriceBar(date, sessionTicks, volume)],
+      sessionTicks,
+    };
+    const pop = close / offerPrice - 1;
+    const item = createDebutNews(listed, date, pop);
+
+    listings.push({ ...listed, news: [item, ...listed.news] });
+    debuts.push({ stockId: stock.id, offerPrice, pop });
+    news.push(item);
+  });
+
+  return { calendar: remaining, listings, debuts, news };
+};
@@ -0,0 +1,18 @@
+import { getQuote, getFillPrice, getTickSize } from './liquidity';
+import { createTestStock } from './testFixtures';
+
+// Egghead.com after the crash, when it traded for about a dollar
+const pennyStock = (date: string) => createTestStock('Egghead.com', { price: 1 }, date);
+
+test('quotes move from sixteenths to cents with decimalization', () => {
+  expect(getTickSize('2001-04-06')).toBe(1 / 16);
+  expect(getTickSize('2001-04-09')).toBe(0.01);
+
+  // On a $1 stock the tick is the whole spread
+  const before = getQuote(pennyStock('2001-04-06'));
+  expect(before.ask - before.bid).toBeCloseTo(1 / 16);
+  const after = getQuote(pennyStock('2001-04-09'));
+  expect(after.ask - after.bid).toBeCloseTo(0.01);
+
+  expect(getFillPrice(pennyStock('2001-04-09'), 'buy', 100).price).toBeLessThan(getFillPrice(pennyStock('2001-04-06'), 'buy', 100).price);
+});
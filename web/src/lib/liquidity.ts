@@ -0,0 +1,77 @@
+import { Stock } from './stockMarketSimulation';
+import { getBaseVolume } from './sessionBars';
+import { getVolatilityFactor } from './priceModels';
+
+// Liquidity. Every stock is quoted with a bid below and an ask above its last price,
+// and the player buys at the ask and sells at the bid. The spread is a fraction of the
+// price that grows with the stock's volatility and with how violently it moved last
+// session, but never narrower than one tick. Quotes were in sixteenths of a dollar until
+// decimalization (see `getTickSize`), and in cents after it, so on a penny stock the
+// tick alone makes for a wide spread. On top of that an order pushes the price against
+// itself in proportion to its share of a typical day's volume.
+
+export interface Quote {
+  bid: number;
+  ask: number;
+  // Average shares traded per session lately
+  volume: number;
+}
+
+export interface Fill {
+  price: number;
+  // Dollars given up against the last price, for the whole order
+  slippage: number;
+}
+
+// The Nasdaq finished moving from sixteenths to decimal quotes on this date
+export const DECIMALIZATION_DATE = '2001-04-09';
+// Spread as a fraction of the price for a medium-volatility stock on a quiet day
+const BASE_SPREAD = 0.002;
+const MAX_SPREAD = 0.5;
+// Price impact of trading a full day's volume at once, for a medium-volatility stock
+const MARKET_IMPACT = 0.5;
+// Sessions averaged for the typical daily volume
+const VOLUME_LOOKBACK = 20;
+
+export const getAverageVolume = (stock: Stock): number => {
+  const volumes = stock.priceHistory
+    .slice(-VOLUME_LOOKBACK)
+    .map(bar => bar.volume)
+    .filter((volume): volume is number => volume !== undefined && volume > 0);
+  if (volumes.length === 0) return getBaseVolume(stock);
+  return volumes.reduce((total, volume) => total + volume, 0) / volumes.length;
+};
+
+export const getTickSize = (date: string): number => {
+  return date < DECIMALIZATION_DATE ? 1 / 16 : 0.01;
+};
+
+// Quoted in the tick size of the stock's last session
+export const getQuote = (stock: Stock): Quote => {
+  const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+  const previousBar = stock.priceHistory[stock.priceHistory.length - 2];
+  const lastMove = previousBar ? Math.abs(stock.price / previousBar.price - 1) : 0;
+  const fraction = Math.min(MAX_SPREAD, BASE_SPREAD * getVolatilityFactor(stock.volatility) * (1 + 10 * lastMove));
+  const halfSpread = Math.max(getTickSize(lastBar ? lastBar.date : ''), stock.price * fraction) / 2;
+
+  return {
+    bid: Math.max(0, stock.price - halfSpread),
+    ask: stock.price + halfSpread,
+    volume: getAverageVolume(stock),
+  };
+};
+
+// Average price for a market order of `shares`: the ask or bid, walked further away by
+// the order's share of the typical day's volume
+export const getFillPrice = (stock: Stock, side: 'buy' | 'sell', shares: number): Fill => {
+  const quote = getQuote(stock);
+  const impact = stock.price * MARKET_IMPACT * getVolatilityFactor(stock.volatility) * (shares / quote.volume);
+  const price = side === 'buy'
+    ? quote.ask + impact
+    : Math.max(0, quote.bid - impact);
+
+  return {
+    price,
+    slippage: Math.abs(price - stock.price) * shares,
+  };
+};
@@ -0,0 +1,58 @@
+import { MarginSettings, getBuyingPower, chargeMarginInterest, updateMarginCall } from './margin';
+import { createAccount, buyShares } from './playerAccount';
+import { addTradingDays } from './tradingCalendar';
+import { createTestStock, createTestMarket, TEST_DATE as date } from './testFixtures';
+
+const makeStock = (price: number) => createTestStock('Amazon', { price });
+
+const margin: MarginSettings = { initial: 0.5, maintenance: 0.25, interestRate: 0.085, graceSessions: 3 };
+
+test('a margin account is called when equity runs short and sold out after the deadline', () => {
+  const stock = makeStock(100);
+  expect(getBuyingPower(createAccount(), [stock], margin)).toBeCloseTo(20000);
+  expect(getBuyingPower(createAccount(), [stock])).toBe(10000);
+
+  // $20,000 of stock on $10,000 of equity
+  const account = buyShares(createAccount(), stock, 200, date, { price: 100, slippage: 0 }, 20000);
+  expect(account.cash).toBeCloseTo(-10000);
+  expect(chargeMarginInterest(account, margin, 252).cash).toBeCloseTo(-10850);
+  expect(chargeMarginInterest(account, undefined, 252)).toBe(account);
+
+  // At $60 equity is $2,000 against a $3,000 requirement
+  const fallen = makeStock(60);
+  const called = updateMarginCall(account, [fallen], createTestMarket(date), margin);
+  expect(called.account.marginCall).toEqual({ date, deadline: addTradingDays(date, 3), amount: 1000 });
+
+  // Nothing is sold before the deadline, and enough is sold after it to meet maintenance
+  const waiting = updateMarginCall(called.account, [fallen], createTestMarket(addTradingDays(date, 1)), margin);
+  expect(waiting.account.portfolio.amazon).toBe(200);
+  const sold = updateMarginCall(called.account, [fallen], createTestMarket(addTradingDays(date, 4)), margin);
+  expect(sold.account.portfolio.amazon).toBeLessThan(200);
+  expect(sold.account.marginCall).toBeUndefined();
+  expect(sold.news.some(item => item.headline.includes('Broker Sells'))).toBe(true);
+
+  // A recovery clears the call
+  const recovered = updateMarginCall(called.account, [makeStock(100)], createTestMarket(addTradingDays(date, 1)), margin);
+  expect(recovered.account.marginCall).toBeUndefined();
+});
+
+test('the broker waits out a halt before selling', () => {
+  const account = buyShares(createAccount(), makeStock(100), 200, date, { price: 100, slippage: 0 }, 20000);
+  const deadline = addTradingDays(date, 3);
+  const called = { ...account, marginCall: { date, deadline, amount: 1000 } };
+  const after = addTradingDays(date, 4);
+
+  // Halted since midday, so the call stays open with nothing sold
+  const halted = createTestStock('Amazon', { price: 60, tradingHalt: { date: after, time: '12:00', reason: 'volatility' } });
+  const held = updateMarginCall(called, [halted], createTestMarket(after), margin);
+  expect(held.account.portfolio.amazon).toBe(200);
+  expect(held.account.marginCall).toEqual(called.marginCall);
+
+  // The same goes for a market-wide circuit breaker
+  const breaker = { ...createTestMarket(after), circuitBreaker: { date: after, time: '12:00', level: 1, decline: 0.1 } };
+  expect(updateMarginCall(called, [makeStock(60)], breaker, margin).account.portfolio.amazon).toBe(200);
+
+  // Once trading resumes the broker sells
+  const resumed = updateMarginCall(called, [halted], createTestMarket(addTradingDays(after, 1)), margin);
+  expect(resumed.account.portfolio.amazon).toBeLessThan(200);
+});
@@ -0,0 +1,153 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { PlayerAccount, getNetWorth, sellShares } from './playerAccount';
+import { getFillPrice } from './liquidity';
+import { getTradingHaltReason } from './tradingHalts';
+import { addTradingDays } from './tradingCalendar';
+
+// Margin accounts. The broker lends against the long positions: a purchase can run cash
+// below zero as long as equity (net worth) stays above `initial` of the longs' value
+// afterwards, and the debit balance pays interest every session. Once equity falls
+// below `maintenance` of the longs' value the broker issues a margin call; if it hasn't
+// been met after `graceSessions` it sells positions, biggest first, until it has. Stocks
+// that are halted can't be sold, so the call stays open until trading resumes.
+
+export interface MarginSettings {
+  // Equity needed as a fraction of the longs' value to buy, and to keep holding
+  initial: number;
+  maintenance: number;
+  // Annual rate charged on the debit balance
+  interestRate: number;
+  // Sessions the player has to meet a call before positions are sold
+  graceSessions: number;
+}
+
+export interface MarginCall {
+  date: string;
+  // Last session to restore equity before the broker sells
+  deadline: string;
+  // Equity short of the maintenance requirement when the call went out
+  amount: number;
+}
+
+export const marginPresets: { id: string; name: string; margin?: MarginSettings }[] = [
+  { id: 'cash', name: 'Cash Account' },
+  { id: 'reg-t', name: 'Margin (50% / 25%)', margin: { initial: 0.5, maintenance: 0.25, interestRate: 0.085, graceSessions: 3 } },
+  { id: 'aggressive', name: 'Margin (30% / 20%)', margin: { initial: 0.3, maintenance: 0.2, interestRate: 0.1, graceSessions: 2 } },
+];
+
+const SESSIONS_PER_YEAR = 252;
+
+export const getLongValue = (account: PlayerAccount, stocks: Stock[]): number => {
+  return Object.entries(account.portfolio).reduce((total, [stockId, shares]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    return total + (stock ? stock.price * shares : 0);
+  }, 0);
+};
+
+// Most the player can spend on a purchase right now: the cash on hand, or on margin
+// whatever keeps equity at the initial requirement
+export const getBuyingPower = (account: PlayerAccount, stocks: Stock[], margin?: MarginSettings): number => {
+  if (!margin) return account.cash;
+  const marginPower = getNetWorth(account, stocks) / margin.initial - getLongValue(account, stocks);
+  return Math.max(account.cash, marginPower);
+};
+
+export const isBelowMaintenance = (account: PlayerAccount, stocks: Stock[], margin: MarginSettings): boolean => {
+  return account.cash < 0 && getNetWorth(account, stocks) < margin.maintenance * getLongValue(account, stocks);
+};
+
+// Charges `sessions` days of interest on a debit balance to the account
+export const chargeMarginInterest = (account: PlayerAccount, margin: MarginSettings | undefined, sessions: number): PlayerAccount => {
+  if (!margin || account.cash >= 0) return account;
+
+  const interest = -account.cash * margin.interestRate * sessions / SESSIONS_PER_YEAR;
+  return { ...account, cash: account.cash - interest, marginInterest: account.marginInterest + interest };
+};
+
+const createMarginNews = (id: string, date: string, headline: string, content: string, stockId?: string): NewsItem => ({
+  id: `margin-${id}-${date}`,
+  date,
+  headline,
+  content,
+  impact: 'neutral',
+  stockId,
+});
+
+// Sells shares of the biggest positions until equity meets the maintenance requirement
+const liquidate = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  market: MarketState,
+  margin: MarginSettings
+): { account: PlayerAccount; news: NewsItem[] } => {
+  const date = market.currentDate;
+  let current = account;
+  const news: NewsItem[] = [];
+
+  const sellable = () => Object.entries(current.portfolio)
+    .map(([stockId, shares]) => ({ stock: stocks.find(s => s.id === stockId), shares }))
+    .filter((entry): entry is { stock: Stock; shares: number } => entry.stock !== undefined && !getTradingHaltReason(market, entry.stock))
+    .sort((a, b) => b.stock.price * b.shares - a.stock.price * a.shares);
+
+  let positions = sellable();
+  while (positions.length > 0 && isBelowMaintenance(current, stocks, margin)) {
+    const { stock, shares } = positions[0];
+    // Longs that have to go so equity covers maintenance on the rest
+    const excess = getLongValue(current, stocks) - getNetWorth(current, stocks) / margin.maintenance;
+    const toSell = Math.min(shares, Math.max(1, Math.ceil(excess / stock.price)));
+    current = sellShares(current, stock, toSell, date, sold => getFillPrice(stock, 'sell', sold), 'margin-call');
+    news.push(createMarginNews(
+      `liquidation-${news.length}-${stock.id}`,
+      date,
+      `Broker Sells ${toSell} ${stock.symbol} to Cover Margin Call`,
+      `Your margin call went unmet, so your broker sold ${toSell} shares of ${stock.name} at the close.`,
+      stock.id
+    ));
+    positions = sellable();
+  }
+
+  return { account: current, news };
+};
+
+// Runs at the close of each step: issues a call when equity falls below maintenance,
+// clears it once equity is back, and sells positions when the deadline has passed
+export const updateMarginCall = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  market: MarketState,
+  margin: MarginSettings | undefined
+): { account: PlayerAccount; news: NewsItem[] } => {
+  if (!margin) return { account, news: [] };
+
+  const date = market.currentDate;
+  const call = account.marginCall;
+  if (!isBelowMaintenance(account, stocks, margin)) {
+    if (!call) return { account, news: [] };
+    return {
+      account: { ...account, marginCall: undefined },
+      news: [createMarginNews('met', date, 'Margin Call Met', 'Your account is back above the maintenance requirement.')],
+    };
+  }
+
+  if (!call) {
+    const amount = margin.maintenance * getLongValue(account, stocks) - getNetWorth(account, stocks);
+    const deadline = addTradingDays(date, margin.graceSessions);
+    return {
+      account: { ...account, marginCall: { date, deadline, amount } },
+      news: [createMarginNews(
+        'call',
+        date,
+        'Margin Call Issued',
+        `Your equity is $${amount.toFixed(2)} short of the maintenance requirement. If it is still short after ${deadline}, your broker will sell positions until it isn't.`
+      )],
+    };
+  }
+
+  if (date <= call.deadline) return { account, news: [] };
+
+  const liquidated = liquidate(account, stocks, market, margin);
+  return {
+    account: { ...liquidated.account, marginCall: isBelowMaintenance(liquidated.account, stocks, margin) ? call : undefined },
+    news: liquidated.news,
+  };
+};
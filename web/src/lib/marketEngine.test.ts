@@ -0,0 +1,937 @@
+import {
+  createSimulationState,
+  stepSimulation,
+  stepMarket,
+  stepStocks,
+  buyStock,
+  sellStock,
+  requestIpoAllocation,
+  getTradeRejection,
+  placeOrder,
+  cancelOrder,
+  shortStock,
+  coverStock,
+  buyOption,
+  sellOption,
+  setLotMethod,
+  restoreSimulationState,
+  SimulationState,
+} from './marketEngine';
+import { createRandom } from './random';
+import { priceModels, getPriceModel, getEffectiveVolatility } from './priceModels';
+import { getSectorProfile } from './sectorFactors';
+import { isActive, isTradable } from './companyLifecycle';
+import { generateCompanyNews, updateNewsShocks, shockMarket } from './newsImpact';
+import { getHistoricalIndexReturn } from './historicalMarket';
+import { Scenario, defaultScenario, validateScenario } from './scenarios';
+import { Valuation, evaluateObjectives } from './objectives';
+import { applyCircuitBreaker, updateTradingHalts } from './tradingHalts';
+import { getQuote, getFillPrice } from './liquidity';
+import { fillOrders, splitOrders } from './orders';
+import { getBorrowRate, chargeBorrowFees, enforceShortCollateral } from './shortSelling';
+import { getNetWorth, splitHoldings, convertHoldings, writeOffHoldings, settleAccount } from './playerAccount';
+import { createOpeningLedger, getCostBasis, getRealizedGain, getUnrealizedGain } from './taxLots';
+import { OptionContract, getExpiries, getStrikes, getOptionValue, getOptionQuote, getContractId, splitOptions, updateOptions } from './options';
+import { MarginSettings, getBuyingPower, chargeMarginInterest, updateMarginCall } from './margin';
+import { Stock, NewsItem, SimulationSettings } from './stockMarketSimulation';
+import companiesData from '../data/companies-data.json';
+
+const settings: SimulationSettings = {
+  startYear: 1999,
+  startMonth: 10,
+  crashYear: 2000,
+  volatilityFactor: 1.0,
+  timeScale: 7,
+  crashRandomness: 0.7,
+};
+
+const initialStocks = [...companiesData.notorious, ...companiesData.survivors].map(company => ({
+  ...company,
+  id: '',
+  symbol: '',
+  price: company.initialPrice,
+  volatility: company.volatility as Stock['volatility'],
+  survivalChance: company.survivalChance as Stock['survivalChance'],
+  priceHistory: [],
+  news: [],
+  status: 'listed' as const,
+  listingDate: company.listingDate,
+  splitSchedule: (company as Partial<Stock>).splitSchedule,
+  acquisition: (company as Partial<Stock>).acquisition,
+}));
+
+const runUntil = (state: SimulationState, done: (state: SimulationState) => boolean) => {
+  let previous = state;
+  let current = state;
+  for (let i = 0; i < 500 && !done(current); i++) {
+    previous = current;
+    current = stepSimulation(current, settings);
+  }
+  return { previous, current };
+};
+
+test('same seed replays the same market', () => {
+  const a = runUntil(createSimulationState(initialStocks, settings, 1234), s => s.market.currentDate >= '2001-01-01').current;
+  const b = runUntil(createSimulationState(initialStocks, settings, 1234), s => s.market.currentDate >= '2001-01-01').current;
+
+  expect(a.market.marketIndexHistory).toEqual(b.market.marketIndexHistory);
+  expect(a.stocks).toEqual(b.stocks);
+  expect(a.rngState).toBe(b.rngState);
+});
+
+test('a saved game carries on with the same draws as the game that was saved', () => {
+  // Saved through JSON, the way it goes to the database
+  const save = (state: SimulationState) => JSON.parse(JSON.stringify({
+    market: state.market,
+    stocks: state.stocks,
+    account: state.account,
+    valuations: state.valuations,
+    rngState: state.rngState,
+    crashEvents: state.crashEvents,
+    session: state.session,
+  }));
+  const replay = (state: SimulationState, steps: number, simulation: SimulationSettings) =>
+    Array.from({ length: steps }).reduce<SimulationState>(current => stepSimulation(current, simulation), state);
+  const expectSameGame = (a: SimulationState, b: SimulationState) => {
+    expect(b.market).toEqual(a.market);
+    expect(b.stocks).toEqual(a.stocks);
+    expect(b.account).toEqual(a.account);
+    expect(b.valuations).toEqual(a.valuations);
+    expect(b.rngState).toBe(a.rngState);
+  };
+
+  // Saved after the crash, with a position open
+  const crashed = runUntil(createSimulationState(initialStocks, settings, 1234), s => s.market.currentDate >= '2000-06-01').current;
+  const saved = buyStock(crashed, 'amazon', 100);
+  const loaded = restoreSimulationState(initialStocks, settings, 1234, save(saved));
+  expect(saved.crashEvents.peakIndex).toBeGreaterThan(0);
+  expect(loaded.crashEvents).toEqual(saved.crashEvents);
+  expectSameGame(replay(saved, 10, settings), replay(loaded, 10, settings));
+
+  // Saved between intraday ticks
+  const intradaySettings = { ...settings, intradayTicks: 4 };
+  const midday = stepSimulation(stepSimulation(createSimulationState(initialStocks, intradaySettings, 11), intradaySettings), intradaySettings);
+  expect(midday.session).not.toBeNull();
+  const resumed = restoreSimulationState(initialStocks, intradaySettings, 11, save(midday));
+  expect(resumed.session!.tick).toBe(midday.session!.tick);
+  expectSameGame(replay(midday, 6, intradaySettings), replay(resumed, 6, intradaySettings));
+});
+
+test('saves from before the generator state and valuations were kept still load', () => {
+  const played = runUntil(createSimulationState(initialStocks, settings, 1234), s => s.market.currentDate >= '2000-01-01').current;
+  const saved = buyStock(played, 'amazon', 100);
+  const loaded = restoreSimulationState(initialStocks, settings, 1234, JSON.parse(JSON.stringify({
+    market: saved.market,
+    stocks: saved.stocks,
+    account: saved.account,
+  })));
+
+  expect(loaded.session).toBeNull();
+  expect(loaded.valuations).toEqual([{ date: saved.market.currentDate, netWorth: getNetWorth(saved.account, saved.stocks), index: saved.market.marketIndex }]);
+  const next = stepSimulation(loaded, settings);
+  expect(next.market.currentDate > saved.market.currentDate).toBe(true);
+  expect(next.account.portfolio.amazon).toBe(100);
+});
+
+test('stock prices are stamped with the same date as the index', () => {
+  const { current } = runUntil(createSimulationState(initialStocks, settings, 99), s => s.market.marketIndexHistory.length > 20);
+
+  // Companies that listed mid-game line up with the tail of the index
+  current.stocks.filter(isTradable).forEach(stock => {
+    expect(stock.priceHistory.map(point => point.date)).toEqual(
+      current.market.marketIndexHistory.slice(-stock.priceHistory.length).map(point => point.date)
+    );
+  });
+});
+
+test('stocks react to the market computed in the same step', () => {
+  const { previous, current } = runUntil(createSimulationState(initialStocks, settings, 8), s => s.market.bubbleStage === 'crash');
+  expect(previous.market.bubbleStage).not.toBe('crash');
+  expect(current.market.bubbleStage).toBe('crash');
+
+  // Replay the crash step by hand: market first, then stocks against that fresh market
+  const random = createRandom(previous.rngState);
+  const { market } = stepMarket(previous.market, previous.crashEvents, settings, random, settings.timeScale);
+  const stepped = stepStocks(previous.stocks, market, settings, random, settings.timeScale);
+  const companyNews = generateCompanyNews(stepped, market, random, settings.timeScale);
+  const { stocks, marketReturn } = updateNewsShocks(
+    market.newsShocks || [],
+    [...companyNews, ...market.news.filter(item => item.date === market.currentDate)],
+    stepped,
+    random,
+    settings.timeScale
+  );
+
+  expect(market.bubbleStage).toEqual(current.market.bubbleStage);
+  expect(shockMarket(market, marketReturn).marketIndex).toEqual(current.market.marketIndex);
+
+  // Corporate events (failures, dividends, deals, ...) adjust prices after the market
+  // move and its headlines, so only compare the stocks that had none this step
+  const dealTargets = [...(previous.market.deals || []), ...(current.market.deals || [])].map(deal => deal.targetId);
+  const quiet = current.stocks.filter(stock =>
+    isTradable(stock) &&
+    !(stock.news[0]?.date > previous.market.currentDate) &&
+    !dealTargets.includes(stock.id) &&
+    previous.stocks.some(s => s.id === stock.id)
+  );
+
+  expect(quiet.length).toBeGreaterThan(10);
+  quiet.forEach(stock => {
+    expect(stocks.find(s => s.id === stock.id)!.price).toEqual(stock.price);
+  });
+});
+
+test('the clock only moves through trading sessions', () => {
+  const septemberSettings = { ...settings, startYear: 2001, startMonth: 9, timeScale: 1 };
+  let state = createSimulationState(initialStocks, septemberSettings, 3);
+  for (let i = 0; i < 6; i++) {
+    state = stepSimulation(state, septemberSettings);
+  }
+
+  expect(state.market.marketIndexHistory.map(point => point.date)).toEqual([
+    '2001-09-04', '2001-09-05', '2001-09-06', '2001-09-07', '2001-09-10', '2001-09-17', '2001-09-18',
+  ]);
+});
+
+test('intraday mode reveals ticks before closing the session bar', () => {
+  const intradaySettings = { ...settings, intradayTicks: 4 };
+  const start = createSimulationState(initialStocks, intradaySettings, 11);
+  const times: string[] = [];
+  const barCounts: number[] = [];
+  let state = start;
+  for (let i = 0; i < 4; i++) {
+    state = stepSimulation(state, intradaySettings);
+    times.push(state.market.currentTime);
+    barCounts.push(state.market.marketIndexHistory.length);
+  }
+
+  expect(times).toEqual(['09:30', '11:40', '13:50', '16:00']);
+  expect(barCounts).toEqual([1, 1, 1, 2]);
+  expect(state.session).toBeNull();
+
+  const bar = state.stocks[0].priceHistory[1];
+  expect(bar.price).toBe(state.stocks[0].price);
+  expect(bar.high!).toBeGreaterThanOrEqual(Math.max(bar.open!, bar.price));
+  expect(bar.low!).toBeLessThanOrEqual(Math.min(bar.open!, bar.price));
+  expect(bar.volume).toBeGreaterThan(0);
+});
+
+test('trades made between intraday ticks carry through to the close', () => {
+  const intradaySettings = { ...settings, intradayTicks: 4 };
+  const opened = stepSimulation(createSimulationState(initialStocks, intradaySettings, 11), intradaySettings);
+  const bought = buyStock(opened, 'amazon', 50);
+  expect(bought.account.portfolio.amazon).toBe(50);
+
+  const midday = stepSimulation(bought, intradaySettings);
+  expect(midday.market.currentTime).toBe('11:40');
+  expect(midday.account.portfolio.amazon).toBe(50);
+
+  // An order placed mid-session only works the ticks still to come
+  const ordered = placeOrder(midday, { stockId: 'amazon', side: 'buy', type: 'limit', shares: 10, triggerPrice: 1000, expiry: 'day' });
+  expect(ordered.account.orders[0].placedTime).toBe('11:40');
+  const afternoon = stepSimulation(ordered, intradaySettings);
+  expect(afternoon.account.portfolio.amazon).toBe(60);
+  const closed = stepSimulation(afternoon, intradaySettings);
+  expect(closed.session).toBeNull();
+  expect(closed.market.currentTime).toBe('16:00');
+  expect(closed.account.portfolio.amazon).toBe(60);
+
+  // Filled at the quote as the 13:50 tick was revealed
+  const fill = getFillPrice(afternoon.stocks.find(s => s.id === 'amazon')!, 'buy', 10);
+  expect(closed.account.trades.map(trade => trade.shares)).toEqual([50, 10]);
+  expect(closed.account.trades[1].price).toBeCloseTo(fill.price);
+  expect(closed.valuations[closed.valuations.length - 1].netWorth).toBeCloseTo(getNetWorth(closed.account, closed.stocks));
+});
+
+test('a stop hit mid-session sells at the tick that triggered it', () => {
+  const intradaySettings = { ...settings, intradayTicks: 4 };
+  const opened = stepSimulation(createSimulationState(initialStocks, intradaySettings, 11), intradaySettings);
+  const bought = buyStock(opened, 'amazon', 50);
+  const price = bought.stocks.find(s => s.id === 'amazon')!.price;
+  // Far above the price, so the next tick trips it
+  const stopped = placeOrder(bought, { stockId: 'amazon', side: 'sell', type: 'stop', shares: 50, triggerPrice: price * 10, expiry: 'gtc' });
+
+  const midday = stepSimulation(stopped, intradaySettings);
+  expect(midday.market.currentTime).toBe('11:40');
+  expect(midday.account.portfolio.amazon).toBeUndefined();
+  expect(midday.account.orders).toEqual([]);
+  const amazon = midday.stocks.find(s => s.id === 'amazon')!;
+  expect(midday.account.trades[1]).toMatchObject({ side: 'sell', shares: 50, price: getFillPrice(amazon, 'sell', 50).price });
+
+  // A stop left with nothing to sell is cancelled at its tick, and the headline outlasts the session
+  const sold = sellStock(stopped, 'amazon', 50);
+  const cancelled = stepSimulation(sold, intradaySettings);
+  expect(cancelled.account.orders).toEqual([]);
+  const closed = stepSimulation(stepSimulation(cancelled, intradaySettings), intradaySettings);
+  expect(closed.session).toBeNull();
+  expect(closed.market.news.some(item => item.headline === 'AMZN Order Cancelled')).toBe(true);
+});
+
+test('every price model keeps prices positive through the crash', () => {
+  priceModels.forEach(model => {
+    const modelSettings = { ...settings, priceModel: model.id };
+    let state = createSimulationState(initialStocks, modelSettings, 5);
+    for (let i = 0; i < 150; i++) {
+      state = stepSimulation(state, modelSettings);
+    }
+
+    state.stocks.filter(isActive).forEach(stock => {
+      expect(Number.isFinite(stock.price)).toBe(true);
+      expect(stock.price).toBeGreaterThan(0);
+    });
+  });
+});
+
+test('a sector factor moves its members and leaves other sectors alone', () => {
+  const base = createSimulationState(initialStocks, settings, 21);
+  const market = { ...base.market, sectorReturns: { 'Search': -0.2, 'Enterprise Software': 0, 'Other': 0 } };
+  const search = base.stocks.find(stock => stock.category === 'Search')!;
+  const gbm = getPriceModel('gbm');
+
+  const nextPrice = (category: string) => gbm.nextPrice({
+    stock: { ...search, category },
+    market,
+    settings,
+    random: createRandom(77),
+    sessions: 1,
+  });
+
+  const ratio = nextPrice('Search') / nextPrice('Enterprise Software');
+  expect(ratio).toBeCloseTo(Math.exp(-0.2 * getSectorProfile('Search').loading), 10);
+});
+
+test('a halted company goes bankrupt and is written off from the portfolio', () => {
+  const base = createSimulationState(initialStocks, settings, 8);
+  const target = base.stocks[0];
+  const state: SimulationState = {
+    ...base,
+    stocks: base.stocks.map(stock => stock.id === target.id ? { ...stock, status: 'halted' as const } : stock),
+    account: { ...base.account, cash: 500, portfolio: { [target.id]: 100, [base.stocks[1].id]: 10 } },
+  };
+
+  const next = stepSimulation(state, settings);
+  const failed = next.stocks.find(stock => stock.id === target.id)!;
+
+  expect(failed.status).toBe('bankrupt');
+  expect(failed.price).toBe(0);
+  expect(next.account.portfolio).toEqual({ [base.stocks[1].id]: 10 });
+  expect(next.market.news.some(item => item.stockId === target.id)).toBe(true);
+  expect(buyStock(next, target.id, 1)).toBe(next);
+});
+
+test('companies list on their IPO date and fill allocations at the offer price', () => {
+  const start = createSimulationState(initialStocks, settings, 12);
+  expect(start.stocks.some(stock => stock.id === 'webvan')).toBe(false);
+
+  const { current: announced } = runUntil(start, s => s.ipoCalendar.some(ipo => ipo.stock.id === 'webvan' && ipo.announced));
+  const requested = requestIpoAllocation(announced, 'webvan', 200);
+  expect(requested.account.ipoRequests).toEqual({ webvan: 200 });
+
+  const { current: listed } = runUntil(requested, s => s.stocks.some(stock => stock.id === 'webvan'));
+  const webvan = listed.stocks.find(stock => stock.id === 'webvan')!;
+  const shares = listed.account.portfolio.webvan;
+
+  expect(webvan.priceHistory).toHaveLength(1);
+  expect(webvan.priceHistory[0].date).toBe(listed.market.currentDate);
+  expect(shares).toBeGreaterThan(0);
+  expect(shares).toBeLessThanOrEqual(200);
+  expect(listed.account.cash).toBeCloseTo(requested.account.cash - shares * webvan.initialPrice, 6);
+  expect(listed.account.ipoRequests).toEqual({});
+  expect(listed.ipoCalendar.some(ipo => ipo.stock.id === 'webvan')).toBe(false);
+  expect(listed.market.news.some(item => item.id === 'ipo-debut-webvan')).toBe(true);
+});
+
+test('a split multiplies the position and back-adjusts the price history', () => {
+  const splitSettings = { ...settings, priceModel: 'gbm' as const };
+  const base = createSimulationState(initialStocks, splitSettings, 31);
+  const oracle = base.stocks.find(stock => stock.id === 'oracle')!;
+  const state: SimulationState = {
+    ...base,
+    stocks: base.stocks.map(stock => stock.id === 'oracle' ? {
+      ...stock,
+      price: 400,
+      peakPrice: 400,
+      priceHistory: [{ date: base.market.currentDate, price: 400 }],
+    } : stock),
+    account: { ...base.account, portfolio: { oracle: 10 } },
+  };
+
+  const next = stepSimulation(state, splitSettings);
+  const split = next.stocks.find(stock => stock.id === 'oracle')!;
+
+  expect(split.splits).toEqual([{ date: next.market.currentDate, ratio: 3 }]);
+  expect(split.priceHistory[0].price).toBeCloseTo(400 / 3, 6);
+  expect(split.peakPrice).toBeCloseTo(400 / 3, 6);
+  expect(next.account.portfolio.oracle).toBe(30);
+  expect(oracle.splits).toBeUndefined();
+  expect(next.market.news.some(item => item.id === `split-oracle-${next.market.currentDate}`)).toBe(true);
+});
+
+test('dividends mark the price down on the ex-date and pay holders of record', () => {
+  // None of the companies paid one in these years, so Oracle is given a policy here
+  const dividendPolicy = { amount: 0.05, paymentsPerYear: 4, firstExDate: '1998-01-12' };
+  const base = createSimulationState(initialStocks.map(stock => stock.name === 'Oracle' ? { ...stock, dividendPolicy } : stock), settings, 17);
+  const state: SimulationState = { ...base, account: { ...base.account, portfolio: { oracle: 100 } } };
+
+  const { previous, current: exDate } = runUntil(state, s => s.market.currentDate >= '1999-10-12');
+  const oracle = exDate.stocks.find(stock => stock.id === 'oracle')!;
+  const bar = oracle.priceHistory[oracle.priceHistory.length - 1];
+
+  expect(bar.dividend).toBeCloseTo(0.05, 10);
+  expect(exDate.account.pendingDividends).toEqual([
+    { stockId: 'oracle', exDate: '1999-10-12', payDate: '1999-11-09', amount: 5 },
+  ]);
+  expect(previous.account.cash).toBe(exDate.account.cash);
+
+  const { current: paid } = runUntil(exDate, s => s.market.currentDate >= '1999-11-09');
+  expect(paid.account.pendingDividends).toEqual([]);
+  expect(paid.account.dividendIncome).toEqual({ oracle: 5 });
+  expect(paid.account.cash).toBeCloseTo(base.account.cash + 5, 10);
+});
+
+test('a takeover trades at a spread and converts the target into acquirer shares at closing', () => {
+  const dealSettings = { ...settings, startYear: 1999, startMonth: 1 };
+  const base = createSimulationState(initialStocks, dealSettings, 4);
+  const state: SimulationState = { ...base, account: { ...base.account, portfolio: { broadcastcom: 100 } } };
+  const run = (from: SimulationState, done: (s: SimulationState) => boolean) => {
+    let current = from;
+    for (let i = 0; i < 200 && !done(current); i++) current = stepSimulation(current, dealSettings);
+    return current;
+  };
+
+  const announced = run(state, s => (s.market.deals || []).some(deal => deal.targetId === 'broadcastcom'));
+  const deal = announced.market.deals!.find(d => d.targetId === 'broadcastcom')!;
+  const yahoo = announced.stocks.find(stock => stock.id === 'yahoo')!;
+  const target = announced.stocks.find(stock => stock.id === 'broadcastcom')!;
+
+  expect(deal.type).toBe('stock');
+  expect(target.price).toBeLessThan(deal.exchangeRatio * yahoo.price);
+  expect(target.price).toBeGreaterThan(deal.standalonePrice);
+
+  const closed = run(announced, s => !(s.market.deals || []).some(d => d.targetId === 'broadcastcom'));
+  expect(closed.stocks.find(stock => stock.id === 'broadcastcom')!.status).toBe('acquired');
+  expect(closed.account.portfolio.broadcastcom).toBeUndefined();
+  expect(closed.account.portfolio.yahoo).toBeGreaterThan(0);
+  expect(closed.account.cash - announced.account.cash).toBeLessThan(closed.stocks.find(stock => stock.id === 'yahoo')!.price);
+});
+
+test('earnings reports update fundamentals and gap the price on the surprise', () => {
+  const base = createSimulationState(initialStocks, settings, 23);
+  const before = base.stocks.find(stock => stock.id === 'oracle')!.fundamentals!;
+
+  const { previous, current } = runUntil(base, s => s.market.currentDate >= before.nextReportDate);
+  const oracle = current.stocks.find(stock => stock.id === 'oracle')!;
+  const report = oracle.fundamentals!.lastReport!;
+
+  expect(report.date).toBe(before.nextReportDate);
+  expect(report.quarter).toBe('1999 Q3');
+  expect(report.consensusRevenue).toBeCloseTo(before.revenue * (1 + before.revenueGrowth), 6);
+  expect(oracle.fundamentals!.cash).toBeCloseTo(before.cash + report.netIncome, 6);
+  expect(oracle.fundamentals!.nextReportDate > report.date).toBe(true);
+  expect(current.market.news.some(item => item.id === `earnings-oracle-${report.date}`)).toBe(true);
+  // The previous step didn't report yet
+  expect(previous.stocks.find(stock => stock.id === 'oracle')!.fundamentals!.lastReport).toBeUndefined();
+});
+
+test('a headline shocks its stock and keeps moving it while it is priced in', () => {
+  const base = createSimulationState(initialStocks, settings, 31);
+  const amazon = base.stocks.find(stock => stock.id === 'amazon')!;
+  const item: NewsItem = {
+    id: 'company-amazon-test',
+    date: base.market.currentDate,
+    headline: 'Amazon Signs Portal Partnership Deal',
+    content: '',
+    impact: 'positive',
+    stockId: 'amazon',
+  };
+
+  const first = updateNewsShocks([], [item], base.stocks, createRandom(1), 1);
+  const firstAmazon = first.stocks.find(stock => stock.id === 'amazon')!;
+  expect(firstAmazon.price).toBeGreaterThan(amazon.price);
+  expect(firstAmazon.news[0]).toBe(item);
+  expect(first.shocks).toHaveLength(1);
+  // Other stocks don't hear about it
+  const ebay = base.stocks.find(stock => stock.id === 'ebay')!;
+  expect(first.stocks.find(stock => stock.id === 'ebay')!.price).toBe(ebay.price);
+
+  // The rest of the move follows over the next sessions, shrinking each time
+  const second = updateNewsShocks(first.shocks, [], first.stocks, createRandom(2), 1);
+  const secondAmazon = second.stocks.find(stock => stock.id === 'amazon')!;
+  expect(secondAmazon.price / firstAmazon.price).toBeGreaterThan(1);
+  expect(secondAmazon.price / firstAmazon.price).toBeLessThan(firstAmazon.price / amazon.price);
+
+  // A sector story moves every member of the sector and files itself with each of them
+  const sectorItem: NewsItem = { ...item, id: 'sector-test', stockId: undefined, sector: 'Search', impact: 'negative' };
+  const sector = updateNewsShocks([], [sectorItem], base.stocks, createRandom(3), 1);
+  base.stocks.filter(stock => stock.category === 'Search').forEach(stock => {
+    const after = sector.stocks.find(s => s.id === stock.id)!;
+    expect(after.price).toBeLessThan(stock.price);
+    expect(after.news[0]).toBe(sectorItem);
+  });
+});
+
+test('historical replay follows the real index and stages', () => {
+  const replaySettings: SimulationSettings = { ...settings, startYear: 1999, startMonth: 1, priceModel: 'gbm', marketMode: 'historical' };
+  const start = createSimulationState(initialStocks, replaySettings, 13);
+  let current = start;
+  while (current.market.currentDate < '2000-06-01') current = stepSimulation(current, replaySettings);
+  const startDate = start.market.currentDate;
+  const date = current.market.currentDate;
+
+  expect(current.market.bubbleStage).toBe('crash');
+  // Within the daily noise of the real Nasdaq's move over the same dates
+  const realReturn = getHistoricalIndexReturn(startDate, date)!;
+  expect(current.market.marketIndex / start.market.marketIndex / realReturn).toBeGreaterThan(0.95);
+  expect(current.market.marketIndex / start.market.marketIndex / realReturn).toBeLessThan(1.05);
+  expect(current.market.news.some(item => item.id === 'history-2000-03-10')).toBe(true);
+
+  // Cisco tracks its own real path, splits and all
+  const cisco = current.stocks.find(stock => stock.id === 'cisco')!;
+  const ciscoStart = start.stocks.find(stock => stock.id === 'cisco')!;
+  expect(cisco.splits!.length).toBeGreaterThan(0);
+  expect(cisco.historicalScale).toBeDefined();
+  const splitFactor = cisco.splits!.reduce((total, split) => total * split.ratio, 1);
+  expect(cisco.price * splitFactor / ciscoStart.price).toBeGreaterThan(2);
+});
+
+test('a scenario file drives the stages, crash timing and scripted news', () => {
+  expect(validateScenario(defaultScenario)).toBeNull();
+  expect(validateScenario({ ...defaultScenario, stages: [] })).toMatch(/stage/);
+  expect(validateScenario(null)).toMatch(/JSON object/);
+  expect(validateScenario({ ...defaultScenario, stages: [null] })).toMatch(/object/);
+  expect(validateScenario({ ...defaultScenario, stages: [{ ...defaultScenario.stages[0], until: 2000 }] })).toMatch(/until/);
+  expect(validateScenario({ ...defaultScenario, crash: { ...defaultScenario.crash, gameOver: { fromYear: 2000 } } })).toMatch(/gameOver/);
+  expect(validateScenario({ ...defaultScenario, news: [{ ...defaultScenario.news[0], impact: 'huge' }] })).toMatch(/impact/);
+
+  // A short bubble that is certain to burst as soon as the warning comes in mid-1998
+  const scenario: Scenario = {
+    ...defaultScenario,
+    id: 'short-bubble',
+    stages: [
+      { stage: 'mania', until: 'crash', volatility: 0.5, sentiment: [0.8, 0.9], indexChange: [0, 0.02] },
+      { stage: 'crash', volatility: 1, sentiment: [0.1, 0.2], indexChange: [-0.1, 0], severityScaled: true },
+    ],
+    crash: { ...defaultScenario.crash, year: 1998, month: 8, warningMonths: [1, 1], warningProbability: 1, triggerRate: 1 },
+    news: [
+      ...defaultScenario.news,
+      { id: 'scripted', date: '1998-03-02', headline: 'Scripted Headline', content: '', impact: 'neutral' },
+    ],
+  };
+  const scenarioSettings = { ...settings, startYear: 1998, startMonth: 1, crashYear: 1998, timeScale: 5 };
+  let state = createSimulationState(initialStocks, scenarioSettings, 9, undefined, scenario);
+  expect(state.crashEvents.warningDate).toBe('1998-07-15');
+
+  const stages: string[] = [];
+  while (state.market.currentDate < '1998-09-01') {
+    state = stepSimulation(state, scenarioSettings);
+    stages.push(`${state.market.currentDate < '1998-07-15' ? 'before' : 'after'}:${state.market.bubbleStage}`);
+  }
+
+  expect(stages.filter(stage => stage.startsWith('before')).every(stage => stage === 'before:mania')).toBe(true);
+  expect(state.market.bubbleStage).toBe('crash');
+  expect(state.market.news.some(item => item.id.startsWith('crash-warning-'))).toBe(true);
+  expect(state.market.news.some(item => item.id.startsWith('scripted-') && item.headline === 'Scripted Headline')).toBe(true);
+});
+
+test('the market bottoms out and recovers after the crash, and the game settles on its end date', () => {
+  const scenario: Scenario = {
+    ...defaultScenario,
+    id: 'quick-cycle',
+    stages: [
+      { stage: 'mania', until: 'crash', volatility: 0.5, sentiment: [0.8, 0.9], indexChange: [0, 0.02] },
+      { stage: 'crash', volatility: 1, sentiment: [0.1, 0.2], indexChange: [-0.05, 0], severityScaled: true },
+      { stage: 'bottom', afterCrash: 60, volatility: 0.6, sentiment: [0.2, 0.4], indexChange: [-0.01, 0.01] },
+      { stage: 'recovery', afterCrash: 120, from: '1999-01-01', volatility: 0.4, sentiment: [0.5, 0.6], indexChange: [0, 0.02] },
+    ],
+    crash: { ...defaultScenario.crash, year: 1998, month: 6, warningMonths: [1, 1], warningProbability: 1, triggerRate: 1 },
+    endDate: '1999-06-30',
+  };
+  const cycleSettings = { ...settings, startYear: 1998, startMonth: 1, crashYear: 1998, timeScale: 5 };
+  const start = createSimulationState(initialStocks, cycleSettings, 4, undefined, scenario);
+  const holding = start.stocks.find(stock => stock.id === 'oracle')!;
+  let state = buyStock(start, holding.id, 10);
+
+  const stages: string[] = [];
+  while (!state.gameOver) {
+    state = stepSimulation(state, cycleSettings);
+    if (stages[stages.length - 1] !== state.market.bubbleStage) stages.push(state.market.bubbleStage);
+  }
+
+  expect(stages).toEqual(['mania', 'crash', 'bottom', 'recovery']);
+  expect(state.market.crashStartDate! < '1998-07-01').toBe(true);
+  expect(state.market.currentDate).toBe('1999-06-30');
+
+  // Everything is sold at the last price and only cash is left
+  const settlement = state.settlement!;
+  const oracle = state.stocks.find(stock => stock.id === holding.id)!;
+  expect(settlement.sales[holding.id].price).toBe(oracle.price);
+  expect(state.account.portfolio).toEqual({});
+  expect(state.account.cash).toBe(settlement.cash);
+  expect(stepSimulation(state, cycleSettings)).toBe(state);
+
+  // The settings can end the game sooner
+  let early = createSimulationState(initialStocks, { ...cycleSettings, endYear: 1998 }, 4, undefined, scenario);
+  while (!early.gameOver) early = stepSimulation(early, { ...cycleSettings, endYear: 1998 });
+  expect(early.market.currentDate).toBe('1998-12-31');
+});
+
+test('objectives are judged on the valuation history and going broke loses the game', () => {
+  const valuations: Valuation[] = [
+    { date: '1999-01-04', netWorth: 10000, index: 1000 },
+    { date: '1999-06-01', netWorth: 30000, index: 1500 },
+    { date: '2000-06-01', netWorth: 12000, index: 1200 },
+  ];
+  const objectives = [
+    { type: 'netWorth' as const, target: 25000 },
+    { type: 'maxDrawdown' as const, limit: 0.5 },
+    { type: 'beatIndex' as const },
+  ];
+  expect(evaluateObjectives(objectives, valuations).map(status => status.status)).toEqual(['met', 'failed', 'pending']);
+  expect(evaluateObjectives(objectives, valuations, true)[2]).toMatchObject({ status: 'failed', date: '2000-06-01' });
+
+  // Nearly all-in on a company that fails, leaving room for the spread
+  const base = createSimulationState(initialStocks, settings, 8);
+  const target = base.stocks[0];
+  const bought = buyStock(base, target.id, Math.floor(base.account.cash / getQuote(target).ask * 0.9));
+  const state: SimulationState = {
+    ...bought,
+    stocks: bought.stocks.map(stock => stock.id === target.id ? { ...stock, status: 'halted' as const } : stock),
+    account: { ...bought.account, cash: 0 },
+  };
+  const shares = bought.account.portfolio[target.id];
+  expect(bought.account.trades).toEqual([
+    { date: base.market.currentDate, stockId: target.id, side: 'buy', shares, ...getFillPrice(target, 'buy', shares) },
+  ]);
+
+  const broke = stepSimulation(state, settings);
+  expect(broke.gameOver).toBe(true);
+  expect(broke.valuations[broke.valuations.length - 1].netWorth).toBe(0);
+  expect(broke.result).toMatchObject({ outcome: 'lost', bankrupt: true, score: 0, totalReturn: -1 });
+});
+
+test('circuit breakers and single-stock halts freeze the session and turn orders away', () => {
+  const indexTicks = [
+    { time: '09:30', price: 1000 },
+    { time: '11:40', price: 850 },
+    { time: '13:50', price: 700 },
+    { time: '16:00', price: 600 },
+  ];
+  const breaker = applyCircuitBreaker('2000-04-14', 1000, indexTicks);
+  expect(breaker.halt).toMatchObject({ date: '2000-04-14', time: '11:40', level: 1 });
+  expect(breaker.ticks.map(tick => tick.price)).toEqual([1000, 850, 850, 850]);
+  expect(applyCircuitBreaker('2000-04-14', 1000, indexTicks.slice(0, 1)).halt).toBeUndefined();
+
+  // A 20% move with news out on the company halts it; without the news it trades on
+  const stepped = stepSimulation(createSimulationState(initialStocks, settings, 19), settings);
+  const stock = stepped.stocks.find(s => s.id === 'amazon')!;
+  const previousClose = stock.priceHistory[stock.priceHistory.length - 2].price;
+  const spiking: Stock = {
+    ...stock,
+    sessionTicks: [
+      { time: '09:30', price: previousClose },
+      { time: '11:40', price: previousClose * 1.2 },
+      { time: '16:00', price: previousClose * 1.4 },
+    ],
+  };
+  const item: NewsItem = {
+    id: 'company-amazon-test',
+    date: stepped.market.currentDate,
+    headline: 'Amazon Signs Portal Partnership Deal',
+    content: '',
+    impact: 'positive',
+    stockId: 'amazon',
+  };
+  expect(updateTradingHalts([spiking], stepped.market, []).stocks[0].tradingHalt).toBeUndefined();
+
+  const halted = updateTradingHalts([spiking], stepped.market, [item]);
+  const haltedStock = halted.stocks[0];
+  expect(haltedStock.tradingHalt).toEqual({ date: stepped.market.currentDate, time: '11:40', reason: 'news' });
+  expect(haltedStock.price).toBeCloseTo(previousClose * 1.2);
+  expect(haltedStock.priceHistory[haltedStock.priceHistory.length - 1].price).toBe(haltedStock.price);
+  expect(halted.news).toHaveLength(1);
+
+  const state: SimulationState = {
+    ...stepped,
+    stocks: stepped.stocks.map(s => s.id === 'amazon' ? haltedStock : s),
+  };
+  expect(getTradeRejection(state, 'amazon')).toMatch(/halted pending news/);
+  expect(buyStock(state, 'amazon', 10)).toBe(state);
+  expect(getTradeRejection(state, 'ebay')).toBeNull();
+
+  // A market-wide halt stops everything, and the next session clears it
+  const tripped: SimulationState = {
+    ...stepped,
+    market: { ...stepped.market, circuitBreaker: { date: stepped.market.currentDate, time: '11:40', level: 1, decline: 0.15 } },
+  };
+  expect(getTradeRejection(tripped, 'ebay')).toMatch(/level 1 circuit breaker/);
+  expect(sellStock(tripped, 'ebay', 1)).toBe(tripped);
+  expect(getTradeRejection(stepSimulation(state, settings), 'amazon')).toBeNull();
+});
+
+test('orders fill across the spread and move the price against themselves', () => {
+  const state = stepSimulation(createSimulationState(initialStocks, settings, 23), settings);
+  const stock = state.stocks.find(s => s.id === 'amazon')!;
+  const quote = getQuote(stock);
+  expect(quote.bid).toBeLessThan(stock.price);
+  expect(quote.ask).toBeGreaterThan(stock.price);
+
+  // Bigger orders pay more per share, and a collapsed penny stock is far costlier to get out of
+  const small = getFillPrice(stock, 'buy', 10);
+  const large = getFillPrice(stock, 'buy', 10000);
+  expect(small.price).toBeGreaterThan(quote.ask);
+  expect(large.price).toBeGreaterThan(small.price);
+  const penny: Stock = { ...stock, price: 0.25 };
+  const pennyFill = getFillPrice(penny, 'sell', 1000);
+  expect(1 - pennyFill.price / penny.price).toBeGreaterThan(10 * (1 - getFillPrice(stock, 'sell', 1000).price / stock.price));
+
+  const bought = buyStock(state, 'amazon', 100);
+  const trade = bought.account.trades[0];
+  expect(trade.price).toBeCloseTo(getFillPrice(stock, 'buy', 100).price);
+  expect(trade.slippage).toBeCloseTo((trade.price - stock.price) * 100);
+  expect(bought.account.cash).toBeCloseTo(state.account.cash - trade.price * 100);
+
+  // Selling more than is held only fills, and pays for, what is held
+  const sold = sellStock(bought, 'amazon', 500);
+  expect(sold.account.trades[1]).toMatchObject({ side: 'sell', shares: 100, price: getFillPrice(stock, 'sell', 100).price });
+  expect(sold.account.cash).toBeLessThan(state.account.cash);
+});
+
+test('pending orders fill at the first tick that triggers them and lapse or wait otherwise', () => {
+  const base = stepSimulation(createSimulationState(initialStocks, settings, 29), settings);
+  const bought = buyStock(base, 'amazon', 100);
+  const stock = bought.stocks.find(s => s.id === 'amazon')!;
+  const falling: Stock = {
+    ...stock,
+    price: 70,
+    sessionTicks: [
+      { time: '09:30', price: 100 },
+      { time: '11:40', price: 85 },
+      { time: '13:50', price: 78 },
+      { time: '16:00', price: 70 },
+    ],
+  };
+
+  let state = placeOrder(bought, { stockId: 'amazon', side: 'sell', type: 'stop', shares: 100, triggerPrice: 80, expiry: 'gtc' });
+  state = placeOrder(state, { stockId: 'amazon', side: 'sell', type: 'take-profit', shares: 100, triggerPrice: 120, expiry: 'day' });
+  state = placeOrder(state, { stockId: 'amazon', side: 'buy', type: 'limit', shares: 10, triggerPrice: 60, expiry: 'gtc' });
+  expect(state.account.orders.map(order => order.id)).toEqual([1, 2, 3]);
+
+  // The stop sells at the 13:50 print, the take-profit lapses and the limit keeps waiting
+  const filled = fillOrders(state.account, [falling], state.market).account;
+  expect(filled.portfolio.amazon).toBeUndefined();
+  const sale = filled.trades[filled.trades.length - 1];
+  expect(sale).toMatchObject({ side: 'sell', shares: 100, price: getFillPrice({ ...falling, price: 78 }, 'sell', 100).price });
+  expect(filled.orders.map(order => order.type)).toEqual(['limit']);
+
+  // A stop-limit that gaps past its limit stops but doesn't fill
+  const stopLimit = placeOrder(bought, { stockId: 'amazon', side: 'sell', type: 'stop-limit', shares: 100, triggerPrice: 90, limitPrice: 88, expiry: 'gtc' });
+  const stopped = fillOrders(stopLimit.account, [falling], stopLimit.market).account;
+  expect(stopped.portfolio.amazon).toBe(100);
+  expect(stopped.orders[0].stopped).toBe(true);
+
+  // Splits rescale open orders, and cancelled ones are gone
+  expect(splitOrders(state.account, 'amazon', 2).orders[0]).toMatchObject({ shares: 200, triggerPrice: 40 });
+  expect(cancelOrder(state, 1).account.orders.map(order => order.id)).toEqual([2, 3]);
+
+  // Orders are worked as the simulation steps
+  const protectedState = placeOrder(bought, { stockId: 'amazon', side: 'sell', type: 'stop', shares: 100, triggerPrice: stock.price * 10, expiry: 'day' });
+  const next = stepSimulation(protectedState, settings);
+  expect(next.account.portfolio.amazon).toBeUndefined();
+  expect(next.account.orders).toEqual([]);
+});
+
+test('shorts pay to borrow, need collateral and are bought in when it runs out', () => {
+  const base = stepSimulation(createSimulationState(initialStocks, settings, 37), settings);
+  const stock = base.stocks.find(s => s.id === 'amazon')!;
+  const shorted = shortStock(base, 'amazon', 50);
+  const short = shorted.account.shorts.amazon;
+  const proceeds = getFillPrice(stock, 'sell', 50).price * 50;
+  expect(short).toEqual({ shares: -50, proceeds, carryingCosts: 0 });
+  expect(shorted.account.portfolio.amazon).toBeUndefined();
+  expect(shorted.account.cash).toBeCloseTo(base.account.cash + proceeds);
+  expect(getNetWorth(shorted.account, shorted.stocks)).toBeCloseTo(base.account.cash + proceeds - stock.price * 50);
+
+  // Not without the collateral, and not while holding the stock long
+  expect(shortStock(base, 'amazon', Math.ceil(base.account.cash / stock.price) * 3)).toBe(base);
+  const long = buyStock(base, 'amazon', 1);
+  expect(shortStock(long, 'amazon', 10).account.shorts).toEqual({});
+
+  // Borrow fees come out of cash every session, dearer for hard-to-borrow names
+  const charged = chargeBorrowFees(shorted.account, shorted.stocks, shorted.market, 5);
+  const fees = stock.price * 50 * getBorrowRate(stock) * 5 / 252;
+  expect(charged.cash).toBeCloseTo(shorted.account.cash - fees);
+  expect(charged.shorts.amazon.carryingCosts).toBeCloseTo(fees);
+  expect(getBorrowRate({ ...stock, price: 2 })).toBeGreaterThan(getBorrowRate(stock));
+
+  // A rally that eats through the collateral forces a buy-in
+  const stretched = { ...shorted.account, cash: proceeds * 1.5 };
+  const rallied = shorted.stocks.map(s => s.id === 'amazon' ? { ...s, price: s.price * 1.5 } : s);
+  const bought = enforceShortCollateral(stretched, rallied, shorted.market, createRandom(1), 1);
+  expect(bought.account.shorts).toEqual({});
+  expect(bought.news[0].headline).toMatch(/Buy/);
+  expect(bought.account.trades[bought.account.trades.length - 1]).toMatchObject({ side: 'cover', shares: 50 });
+  expect(enforceShortCollateral(shorted.account, shorted.stocks, shorted.market, createRandom(1), 1).account).toBe(shorted.account);
+
+  // Corporate actions: splits double the shares owed, takeovers buy in at the deal price
+  // and bankruptcies let the short keep the proceeds
+  expect(splitHoldings(shorted.account, 'amazon', 2).shorts.amazon.shares).toBe(-100);
+  expect(convertHoldings(shorted.account, 'amazon', { cashPrice: 10 }, '2000-01-03').cash).toBeCloseTo(shorted.account.cash - 500);
+  expect(writeOffHoldings(shorted.account, ['amazon'], '2000-01-03')).toMatchObject({ cash: shorted.account.cash, shorts: {} });
+
+  const covered = coverStock(shorted, 'amazon', 20);
+  expect(covered.account.shorts.amazon.shares).toBe(-30);
+  expect(covered.account.shorts.amazon.proceeds).toBeCloseTo(proceeds * 0.6);
+});
+
+test('a margin account borrows to buy and is called, then sold out, when equity runs short', () => {
+  const margin: MarginSettings = { initial: 0.5, maintenance: 0.25, interestRate: 0.1, graceSessions: 2 };
+  const base = stepSimulation(createSimulationState(initialStocks, settings, 41), settings);
+  const stock = base.stocks.find(s => s.id === 'amazon')!;
+  const shares = Math.floor(base.account.cash * 1.8 / stock.price);
+
+  // Twice the cash on margin, only the cash without it
+  expect(getBuyingPower(base.account, base.stocks, margin)).toBeCloseTo(base.account.cash * 2);
+  expect(buyStock(base, 'amazon', shares)).toEqual(base);
+  const levered = buyStock(base, 'amazon', shares, margin);
+  expect(levered.account.portfolio.amazon).toBe(shares);
+  expect(levered.account.cash).toBeLessThan(0);
+
+  const charged = chargeMarginInterest(levered.account, margin, 252);
+  expect(charged.cash).toBeCloseTo(levered.account.cash * 1.1);
+  expect(charged.marginInterest).toBeCloseTo(-levered.account.cash * 0.1);
+  expect(chargeMarginInterest(base.account, margin, 252)).toBe(base.account);
+
+  // A slump calls the account, and the broker sells once the grace period is up
+  const slumped = levered.stocks.map(s => s.id === 'amazon' ? { ...s, price: s.price * 0.5 } : s);
+  const called = updateMarginCall(levered.account, slumped, { ...levered.market, currentDate: '2000-04-03' }, margin);
+  expect(called.account.marginCall).toMatchObject({ date: '2000-04-03', deadline: '2000-04-05' });
+  expect(called.news[0].headline).toBe('Margin Call Issued');
+  expect(updateMarginCall(called.account, slumped, { ...levered.market, currentDate: '2000-04-05' }, margin).account).toBe(called.account);
+
+  const sold = updateMarginCall(called.account, slumped, { ...levered.market, currentDate: '2000-04-06' }, margin);
+  expect(sold.account.marginCall).toBeUndefined();
+  expect(sold.account.portfolio.amazon).toBeLessThan(shares);
+  expect(sold.account.trades[sold.account.trades.length - 1]).toMatchObject({ side: 'sell', forced: 'margin-call' });
+  expect(sold.news[0].headline).toMatch(/Margin Call/);
+
+  // A recovery before the deadline clears the call
+  const met = updateMarginCall(called.account, levered.stocks, { ...levered.market, currentDate: '2000-04-04' }, margin);
+  expect(met.account.marginCall).toBeUndefined();
+  expect(met.news[0].headline).toBe('Margin Call Met');
+});
+
+test('options are priced from volatility, marked every close and settled at expiry', () => {
+  // Third Fridays, with Good Friday 2000 moving April's expiry to the Thursday
+  expect(getExpiries('2000-03-20')).toEqual(['2000-04-20', '2000-05-19', '2000-06-16']);
+  expect(getExpiries('2000-03-17')[0]).toBe('2000-04-20');
+  expect(getStrikes(12)).toEqual([2.5, 5, 7.5, 10, 12.5, 15, 17.5, 20, 22.5]);
+  expect(getStrikes(101)).toEqual([80, 85, 90, 95, 100, 105, 110, 115, 120]);
+
+  const base = stepSimulation(createSimulationState(initialStocks, settings, 41), settings);
+  const date = base.market.currentDate;
+  const stock = base.stocks.find(s => s.id === 'amazon')!;
+  const [expiry] = getExpiries(date);
+  const strike = getStrikes(stock.price)[4];
+  const put: OptionContract = { stockId: 'amazon', type: 'put', strike, expiry };
+  const call: OptionContract = { ...put, type: 'call' };
+  const sigma = getEffectiveVolatility(stock, settings);
+
+  // Put-call parity holds, and wilder stocks cost more to insure
+  const years = (new Date(expiry).getTime() - new Date(date).getTime()) / (365 * 24 * 60 * 60 * 1000);
+  expect(getOptionValue(call, stock, date, sigma) - getOptionValue(put, stock, date, sigma)).toBeCloseTo(stock.price - strike * Math.exp(-0.05 * years), 4);
+  const extreme = { ...stock, volatility: 'extreme' as const };
+  const low = { ...stock, volatility: 'low' as const };
+  expect(getOptionValue(put, extreme, date, getEffectiveVolatility(extreme, settings))).toBeGreaterThan(getOptionValue(put, low, date, getEffectiveVolatility(low, settings)));
+
+  const quote = getOptionQuote(put, stock, date, sigma);
+  const bought = buyOption(base, put, 2, 'cash', settings);
+  expect(bought.account.cash).toBeCloseTo(base.account.cash - quote.ask * 200);
+  expect(bought.account.options[getContractId(put)]).toMatchObject({ contracts: 2, mark: quote.value, delivery: 'cash' });
+  expect(getNetWorth(bought.account, bought.stocks)).toBeCloseTo(base.account.cash - (quote.ask - quote.value) * 200);
+  expect(buyOption(base, { ...put, expiry: '2000-01-21' }, 2, 'cash', settings)).toBe(base);
+  expect(buyOption(base, { ...put, strike: strike + 1 }, 2, 'cash', settings)).toBe(base);
+
+  const sold = sellOption(bought, getContractId(put), 1, settings);
+  expect(sold.account.cash).toBeCloseTo(bought.account.cash + quote.bid * 100);
+  expect(sold.account.options[getContractId(put)].contracts).toBe(1);
+
+  // Before expiry positions are marked to the model; at expiry they settle
+  const crashed = bought.stocks.map(s => s.id === 'amazon' ? { ...s, price: strike / 2 } : s);
+  const marked = updateOptions(bought.account, crashed, date, settings);
+  expect(marked.account.options[getContractId(put)].mark).toBeGreaterThan(quote.value);
+  const settled = updateOptions(bought.account, crashed, expiry, settings);
+  expect(settled.account.options).toEqual({});
+  expect(settled.account.cash).toBeCloseTo(bought.account.cash + strike / 2 * 200);
+  expect(settled.news[0].headline).toMatch(/Put Settled/);
+
+  // Puts delivering shares sell the holding at the strike, or settle in cash without one
+  const hedged = buyOption(buyStock(base, 'amazon', 200), put, 2, 'shares', settings);
+  const delivered = updateOptions(hedged.account, crashed, expiry, settings).account;
+  expect(delivered.portfolio.amazon).toBeUndefined();
+  expect(delivered.trades[delivered.trades.length - 1]).toMatchObject({ side: 'sell', shares: 200, price: strike });
+  const unhedged = buyOption(base, put, 2, 'shares', settings);
+  expect(updateOptions(unhedged.account, crashed, expiry, settings).account.cash).toBeCloseTo(unhedged.account.cash + strike / 2 * 200);
+
+  // Out of the money they lapse, and a bankruptcy settles them straight away at nothing
+  expect(updateOptions(bought.account, bought.stocks.map(s => s.id === 'amazon' ? { ...s, price: strike * 2 } : s), expiry, settings).account.cash)
+    .toBe(bought.account.cash);
+  const bankrupt = bought.stocks.map(s => s.id === 'amazon' ? { ...s, price: 0, status: 'bankrupt' as const } : s);
+  expect(updateOptions(bought.account, bankrupt, date, settings).account.cash).toBeCloseTo(bought.account.cash + strike * 200);
+
+  // Splits hand out more contracts at a lower strike, and the end of the game sells at the mark
+  const split = splitOptions(bought.account, 'amazon', 2);
+  expect(split.options[getContractId({ ...put, strike: strike / 2 })]).toMatchObject({ contracts: 4 });
+  const final = settleAccount(bought.account, bought.stocks, date);
+  expect(final.settlement.options).toBeCloseTo(quote.value * 200);
+  expect(final.account.options).toEqual({});
+});
+
+test('tax lots give the cost basis and realized gains, FIFO, LIFO or by specific lot', () => {
+  const base = stepSimulation(createSimulationState(initialStocks, settings, 41), settings);
+  const stock = base.stocks.find(s => s.id === 'amazon')!;
+  const early = buyStock(base, 'amazon', 10);
+  const firstPrice = early.account.trades[0].price;
+  const later = { ...early, stocks: early.stocks.map(s => s.id === 'amazon' ? { ...s, price: stock.price * 1.5 } : s) };
+  const bought = buyStock({ ...later, market: { ...later.market, currentDate: '2000-01-03' } }, 'amazon', 10);
+  const secondPrice = bought.account.trades[1].price;
+  const [oldLot, newLot] = bought.account.ledger.lots.amazon;
+
+  expect(oldLot).toMatchObject({ date: base.market.currentDate, shares: 10, price: firstPrice });
+  expect(newLot).toMatchObject({ date: '2000-01-03', shares: 10, price: secondPrice });
+  expect(getCostBasis(bought.account.ledger, 'amazon')).toBeCloseTo(10 * firstPrice + 10 * secondPrice);
+  const amazon = bought.stocks.find(s => s.id === 'amazon')!;
+  expect(getUnrealizedGain(bought.account.ledger, amazon)).toBeCloseTo(amazon.price * 20 - 10 * firstPrice - 10 * secondPrice);
+
+  // FIFO sells the cheap lot first, LIFO the dear one, and specific lots whichever is picked
+  const fifo = sellStock(bought, 'amazon', 5);
+  const salePrice = fifo.account.trades[2].price;
+  expect(fifo.account.ledger.lots.amazon.map(lot => lot.shares)).toEqual([5, 10]);
+  expect(getRealizedGain(fifo.account.ledger)).toBeCloseTo(5 * (salePrice - firstPrice));
+  const lifo = sellStock(setLotMethod(bought, 'lifo'), 'amazon', 5);
+  expect(lifo.account.ledger.lots.amazon.map(lot => lot.shares)).toEqual([10, 5]);
+  expect(getRealizedGain(lifo.account.ledger, 'amazon')).toBeCloseTo(5 * (salePrice - secondPrice));
+  const specific = sellStock(setLotMethod(bought, 'specific'), 'amazon', 12, [newLot.id]);
+  expect(specific.account.ledger.lots.amazon).toEqual([{ ...oldLot, shares: 8 }]);
+  expect(specific.account.ledger.realized.map(gain => gain.lotId)).toEqual([newLot.id, oldLot.id]);
+
+  // Corporate actions carry the basis along or realize it
+  const split = splitHoldings(bought.account, 'amazon', 2);
+  expect(split.ledger.lots.amazon[0]).toMatchObject({ shares: 20, price: firstPrice / 2 });
+  expect(getCostBasis(split.ledger, 'amazon')).toBeCloseTo(getCostBasis(bought.account.ledger, 'amazon'));
+  const converted = convertHoldings(bought.account, 'amazon', { acquirerId: 'aol', exchangeRatio: 0.25, acquirerPrice: 40 }, '2000-02-01');
+  expect(converted.portfolio.aol).toBe(5);
+  expect(converted.ledger.lots.aol.map(lot => lot.date)).toEqual([base.market.currentDate, '2000-01-03']);
+  expect(converted.ledger.realized).toEqual([]);
+  expect(getCostBasis(converted.ledger, 'aol')).toBeCloseTo(getCostBasis(bought.account.ledger, 'amazon'));
+  const cashed = convertHoldings(bought.account, 'amazon', { cashPrice: 10 }, '2000-02-01');
+  expect(cashed.ledger.lots.amazon).toBeUndefined();
+  expect(getRealizedGain(cashed.ledger)).toBeCloseTo(200 - getCostBasis(bought.account.ledger, 'amazon'));
+  const failed = writeOffHoldings(bought.account, ['amazon'], '2000-02-01');
+  expect(getRealizedGain(failed.ledger)).toBeCloseTo(-getCostBasis(bought.account.ledger, 'amazon'));
+
+  // The ledger survives a save, and saves from before it open a lot per holding
+  expect(JSON.parse(JSON.stringify(bought.account.ledger))).toEqual(bought.account.ledger);
+  expect(createOpeningLedger({ amazon: 20 }, bought.stocks, '2000-01-03').lots.amazon).toEqual([
+    { id: 1, date: '2000-01-03', shares: 20, price: amazon.price },
+  ]);
+});
@@ -0,0 +1,877 @@
+import { Stock, NewsItem, MarketState, SimulationSettings } from './stockMarketSimulation';
+import { createRandom, Random } from './random';
+import { addTradingDays, toTradingDay, MARKET_CLOSE } from './tradingCalendar';
+import { buildSessionTicks, toPriceBar, getBaseVolume, DAILY_SESSION_TICKS } from './sessionBars';
+import { getPriceModel, getVolatilityFactor, getEffectiveVolatility } from './priceModels';
+import { simulateSectorReturns } from './sectorFactors';
+import { updateLifecycle, isActive, isTradable } from './companyLifecycle';
+import { SplitEvent, updateSplits } from './stockSplits';
+import { DividendPayment, updateDividends } from './dividends';
+import { createFundamentals, updateEarnings } from './fundamentals';
+import { generateCompanyNews, updateNewsShocks, shockMarket } from './newsImpact';
+import { ClosedDeal, updateMergers, adjustDealsForSplits } from './mergers';
+import { Scenario, defaultScenario, getScheduledStage, getCrashStage, getPostCrashStage, getScenarioNews } from './scenarios';
+import { getHistoricalMarket, getHistoricalStockPrice, HISTORICAL_END_DATE } from './historicalMarket';
+import { UpcomingIpo, IpoDebut, splitIpoCalendar, resumeIpoCalendar, updateIpoCalendar, getAllocationRatio } from './ipoCalendar';
+import { Valuation, GameResult, DEFAULT_OBJECTIVES, recordValuation, isBankrupt, getGameResult } from './objectives';
+import { getFillPrice } from './liquidity';
+import { MarginSettings, getBuyingPower, chargeMarginInterest, updateMarginCall } from './margin';
+import { canOpenShort, chargeBorrowFees, enforceShortCollateral } from './shortSelling';
+import { LotMethod, setLotMethod as setLedgerLotMethod } from './taxLots';
+import { OptionContract, OptionDelivery, getExpiries, getStrikes, getOptionQuote, buyOptions, sellOptions, splitOptions, updateOptions } from './options';
+import { OrderRequest, placeOrder as placeAccountOrder, cancelOrder as cancelAccountOrder, splitOrders, workOrders, fillOrders } from './orders';
+import { applyCircuitBreaker, createCircuitBreakerNews, updateTradingHalts, getTradingHaltReason } from './tradingHalts';
+import {
+  PlayerAccount,
+  createAccount,
+  buyShares,
+  sellShares,
+  shortShares,
+  coverShares,
+  getPositions,
+  writeOffHoldings,
+  splitHoldings,
+  scheduleDividends,
+  payDividends,
+  convertHoldings,
+  requestIpoShares,
+  fillIpoRequest,
+  settleAccount,
+  getNetWorth,
+  FinalSettlement,
+} from './playerAccount';
+
+// Framework-free market engine: every function here takes state in and returns
+// the next state, so a simulation can run in React, Node scripts, tests or workers.
+
+export interface CrashEvents {
+  warningDate: string | null;
+  crashDate: string | null;
+  peakIndex: number;
+}
+
+// An intraday session in progress: `close` is the already simulated end-of-session
+// market, revealed one tick at a time. The account is settled against it once the
+// session closes.
+export interface IntradaySession {
+  tick: number;
+  close: SimulationState;
+  events: SessionEvents;
+}
+
+export interface SimulationState {
+  market: MarketState;
+  stocks: Stock[];
+  crashEvents: CrashEvents;
+  gameOver: boolean;
+  rngState: number;
+  session: IntradaySession | null;
+  account: PlayerAccount;
+  // Companies that haven't gone public yet, in listing order
+  ipoCalendar: UpcomingIpo[];
+  // The timeline the market follows
+  scenario: Scenario;
+  // How the account was cashed out once the game ended
+  settlement: FinalSettlement | null;
+  // The player's net worth and the index at every close
+  valuations: Valuation[];
+  // Verdict and score once the game is over
+  result: GameResult | null;
+}
+
+// Helper functions for simulation
+export const formatDate = (year: number, month: number, day: number): string => {
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+};
+
+const getSessionTicks = (settings: SimulationSettings): number => {
+  return settings.intradayTicks && settings.intradayTicks > 1 ? settings.intradayTicks : DAILY_SESSION_TICKS;
+};
+
+// Last day of the game: the settings' end year, else the scenario's end date. A replay
+// can't run past its data.
+export const getEndDate = (settings: SimulationSettings, scenario: Scenario): string | undefined => {
+  const endDate = settings.endYear ? formatDate(settings.endYear, 12, 31) : scenario.endDate;
+  if (settings.marketMode !== 'historical') return endDate;
+  return endDate && endDate < HISTORICAL_END_DATE ? endDate : HISTORICAL_END_DATE;
+};
+
+export const generateStockSymbol = (name: string): string => {
+  const symbol = name
+    .split(/\s+/)
+    .map(word => word[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 5);
+
+  if (symbol.length < 3) {
+    const consonants = name
+      .toUpperCase()
+      .replace(/[AEIOU\s]/g, '')
+      .slice(0, 5 - symbol.length);
+    return (symbol + consonants).slice(0, 5);
+  }
+
+  return symbol;
+};
+
+// The game opens on the first trading session of the start month
+export const createInitialMarket = (settings: SimulationSettings, scenario: Scenario = defaultScenario): MarketState => {
+  const startDate = toTradingDay(formatDate(settings.startYear, settings.startMonth, 1));
+  const firstStage = scenario.stages[0];
+
+  return {
+    currentDate: startDate,
+    currentTime: MARKET_CLOSE,
+    marketIndex: scenario.startingIndex,
+    marketIndexHistory: [
+      {
+        date: startDate,
+        price: scenario.startingIndex,
+      },
+    ],
+    bubbleStage: firstStage.stage,
+    volatility: firstStage.volatility,
+    sentiment: (firstStage.sentiment[0] + firstStage.sentiment[1]) / 2,
+    news: [],
+    crashWarningShown: false,
+    crashProbability: 0,
+    crashSeverity: scenario.crash.initialSeverity,
+  };
+};
+
+export const initializeStocks = (initialStocks: Stock[], startDate: string): Stock[] => {
+  return initialStocks.map((stock): Stock => ({
+    ...stock,
+    id: stock.name.toLowerCase().replace(/[^a-z0-9]/g, ''),
+    symbol: generateStockSymbol(stock.name),
+    price: stock.initialPrice,
+    status: 'listed',
+    // Splits that already happened are baked into the starting prices
+    splitSchedule: stock.splitSchedule?.filter(split => split.date > startDate),
+    acquisition: stock.acquisition && stock.acquisition.announceDate > startDate ? stock.acquisition : undefined,
+    priceHistory: [
+      {
+        date: startDate,
+        price: stock.initialPrice,
+      },
+    ],
+    news: [],
+  }));
+};
+
+export const determineCrashTiming = (
+  settings: SimulationSettings,
+  random: Random,
+  scenario: Scenario = defaultScenario
+): CrashEvents => {
+  const { crash } = scenario;
+  let crashYear = crash.year;
+  let crashMonth = crash.month;
+
+  if (settings.crashYear) {
+    crashYear = settings.crashYear;
+    crashMonth = crashYear === crash.year ? crash.month : random.int(1, 12);
+  } else {
+    if (random.next() < settings.crashRandomness) {
+      crashYear = random.int(crash.randomYears[0], crash.randomYears[1]);
+      crashMonth = random.int(1, 12);
+    }
+  }
+
+  const warningMonthsAhead = random.int(crash.warningMonths[0], crash.warningMonths[1]);
+  let warningYear = crashYear;
+  let warningMonth = crashMonth - warningMonthsAhead;
+
+  if (warningMonth <= 0) {
+    warningYear--;
+    warningMonth += 12;
+  }
+
+  return {
+    warningDate: formatDate(warningYear, warningMonth, crash.day),
+    crashDate: formatDate(crashYear, crashMonth, crash.day),
+    peakIndex: 0,
+  };
+};
+
+export const createSimulationState = (
+  initialStocks: Stock[],
+  settings: SimulationSettings,
+  seed: number,
+  account: PlayerAccount = createAccount(),
+  scenario: Scenario = defaultScenario
+): SimulationState => {
+  const random = createRandom(seed);
+  const market = createInitialMarket(settings, scenario);
+  const crashEvents = determineCrashTiming(settings, random, scenario);
+  // Companies still on the IPO calendar start reporting once they list
+  const stocks = initializeStocks(initialStocks, market.currentDate).map(stock => ({
+    ...stock,
+    fundamentals: createFundamentals(
+      stock,
+      stock.listingDate && stock.listingDate > market.currentDate ? stock.listingDate : market.currentDate,
+      random
+    ),
+  }));
+  const { listed, upcoming } = splitIpoCalendar(stocks, market.currentDate);
+
+  return {
+    market,
+    stocks: listed,
+    crashEvents,
+    gameOver: false,
+    rngState: random.getState(),
+    session: null,
+    account,
+    ipoCalendar: upcoming,
+    scenario,
+    settlement: null,
+    valuations: [{ date: market.currentDate, netWorth: getNetWorth(account, listed), index: market.marketIndex }],
+    result: null,
+  };
+};
+
+// What a save keeps of a game in progress, beyond its settings and seed
+export interface SavedSimulation {
+  market: MarketState;
+  stocks: Stock[];
+  account: PlayerAccount;
+  valuations?: Valuation[];
+  // Where the random generator and the crash timeline stood, and the intraday session
+  // in progress. Saves without them carry on from fresh draws of the seed.
+  rngState?: number;
+  crashEvents?: CrashEvents;
+  session?: IntradaySession | null;
+}
+
+// Rebuilds a saved game on top of a fresh run from its settings and seed
+export const restoreSimulationState = (
+  initialStocks: Stock[],
+  settings: SimulationSettings,
+  seed: number,
+  saved: SavedSimulation,
+  scenario: Scenario = defaultScenario
+): SimulationState => {
+  const restored = createSimulationState(initialStocks, settings, seed, saved.account, scenario);
+
+  return {
+    ...restored,
+    market: saved.market,
+    stocks: saved.stocks,
+    crashEvents: saved.crashEvents ?? restored.crashEvents,
+    rngState: saved.rngState ?? restored.rngState,
+    session: saved.session ?? null,
+    ipoCalendar: resumeIpoCalendar(restored.ipoCalendar, saved.stocks, saved.market.currentDate),
+    // Saves from before valuations were kept start their history where they left off
+    valuations: saved.valuations?.length ? saved.valuations : [{
+      date: saved.market.currentDate,
+      netWorth: getNetWorth(saved.account, saved.stocks),
+      index: saved.market.marketIndex,
+    }],
+  };
+};
+
+export const stepMarket = (
+  prevMarket: MarketState,
+  crashEvents: CrashEvents,
+  settings: SimulationSettings,
+  random: Random,
+  sessions: number,
+  scenario: Scenario = defaultScenario
+): { market: MarketState; crashEvents: CrashEvents; gameOver: boolean } => {
+  const newDate = addTradingDays(prevMarket.currentDate, sessions);
+  const currentYear = parseInt(newDate.split('-')[0]);
+
+  let newBubbleStage = prevMarket.bubbleStage;
+  let newVolatility = prevMarket.volatility;
+  let newSentiment = prevMarket.sentiment;
+  let newCrashProbability = prevMarket.crashProbability;
+  let newCrashWarningShown = prevMarket.crashWarningShown;
+  let newCrashSeverity = prevMarket.crashSeverity;
+  let newCrashEvents = crashEvents;
+  let newCrashStartDate = prevMarket.crashStartDate;
+  let gameOver = false;
+  const newNews: NewsItem[] = [];
+  // Historical replay takes its stages and index from the real series instead
+  const historical = settings.marketMode === 'historical';
+
+  if (!historical && crashEvents.warningDate && newDate >= crashEvents.warningDate && !newCrashWarningShown) {
+    newCrashWarningShown = true;
+    newCrashProbability = scenario.crash.warningProbability;
+
+    newNews.unshift(...getScenarioNews(scenario, newDate, 'warning'));
+  }
+
+  if (!historical && crashEvents.crashDate && newDate >= crashEvents.crashDate) {
+    newCrashProbability = Math.min(newCrashProbability + scenario.crash.probabilityStep, scenario.crash.maxProbability);
+
+    const daysPastCrashDate = (new Date(newDate).getTime() - new Date(crashEvents.crashDate).getTime()) / (1000 * 60 * 60 * 24);
+    const { initialSeverity, severityRampDays } = scenario.crash;
+    newCrashSeverity = Math.min(initialSeverity + (daysPastCrashDate / severityRampDays) * (1 - initialSeverity), 1.0);
+  }
+
+  if (!historical && !newCrashStartDate && newCrashProbability > 0 && random.next() < newCrashProbability * scenario.crash.triggerRate) {
+    const crashStage = getCrashStage(scenario);
+    newBubbleStage = 'crash';
+    newVolatility = crashStage.volatility;
+    newSentiment = random.float(crashStage.sentiment[0], crashStage.sentiment[1]);
+    newCrashStartDate = newDate;
+
+    newNews.unshift(...getScenarioNews(scenario, newDate, 'crash'));
+
+    if (crashEvents.peakIndex === 0) {
+      newCrashEvents = {
+        ...crashEvents,
+        peakIndex: prevMarket.marketIndex,
+      };
+    }
+  }
+
+  if (!historical && prevMarket.crashStartDate) {
+    // Once crashed, the market bottoms out and recovers on the scenario's schedule
+    const postCrash = getPostCrashStage(scenario, newDate, prevMarket.crashStartDate);
+    newBubbleStage = postCrash.stage;
+    newVolatility = postCrash.volatility;
+    newSentiment = random.float(postCrash.sentiment[0], postCrash.sentiment[1]);
+  } else if (!historical && newBubbleStage !== 'crash') {
+    // Past the last scheduled stage the market carries on as it was until the crash
+    const scheduled = getScheduledStage(scenario, newDate, crashEvents.crashDate ?? undefined);
+    if (scheduled) {
+      newBubbleStage = scheduled.stage;
+      newVolatility = scheduled.volatility;
+      newSentiment = random.float(scheduled.sentiment[0], scheduled.sentiment[1]);
+    }
+  }
+
+  if (!historical) {
+    newNews.unshift(...getScenarioNews(scenario, newDate, undefined, prevMarket.currentDate));
+  }
+
+  let indexChange = 0;
+
+  const stageSettings = scenario.stages.find(stage => stage.stage === newBubbleStage);
+  if (stageSettings) {
+    const [low, high] = stageSettings.indexChange;
+    indexChange = random.float(stageSettings.severityScaled ? low * newCrashSeverity : low, high) * settings.volatilityFactor;
+  }
+
+  let newMarketIndex = Math.max(100, prevMarket.marketIndex * (1 + indexChange));
+
+  if (historical) {
+    const era = getHistoricalMarket(prevMarket, newDate, random);
+    newBubbleStage = era.bubbleStage;
+    newVolatility = era.volatility;
+    newSentiment = era.sentiment;
+    newCrashSeverity = era.crashSeverity;
+    // Synthetic moves fill in wherever the series doesn't reach
+    newMarketIndex = era.marketIndex ?? newMarketIndex;
+    newNews.unshift(...era.news);
+  }
+  const breaker = applyCircuitBreaker(newDate, prevMarket.marketIndex, buildSessionTicks(
+    newDate,
+    prevMarket.marketIndex,
+    newMarketIndex,
+    getSessionTicks(settings),
+    0.02 * newVolatility * settings.volatilityFactor,
+    random
+  ));
+  const indexTicks = breaker.ticks;
+  if (breaker.halt) {
+    newMarketIndex = indexTicks[indexTicks.length - 1].price;
+    newNews.unshift(createCircuitBreakerNews(breaker.halt));
+  }
+
+  const { fromYear, indexDrop, chance } = scenario.crash.gameOver;
+  if (!historical &&
+      newBubbleStage === 'crash' &&
+      newMarketIndex < prevMarket.marketIndex * (1 - indexDrop) &&
+      currentYear >= fromYear &&
+      random.next() > 1 - chance) {
+    gameOver = true;
+  }
+
+  // The game ends with the last session on or before the end date
+  const endDate = getEndDate(settings, scenario);
+  if (endDate && addTradingDays(newDate, 1) > endDate) {
+    gameOver = true;
+  }
+
+  const sectorMoves = simulateSectorReturns(
+    { ...prevMarket, currentDate: newDate, bubbleStage: newBubbleStage },
+    settings,
+    random,
+    sessions
+  );
+
+  return {
+    market: {
+      ...prevMarket,
+      currentDate: newDate,
+      currentTime: indexTicks[indexTicks.length - 1].time,
+      marketIndex: newMarketIndex,
+      marketIndexHistory: [
+        ...prevMarket.marketIndexHistory,
+        toPriceBar(newDate, indexTicks),
+      ],
+      sessionTicks: indexTicks,
+      bubbleStage: newBubbleStage,
+      volatility: newVolatility,
+      sentiment: newSentiment,
+      sectorReturns: sectorMoves.returns,
+      news: [...newNews, ...sectorMoves.news, ...prevMarket.news],
+      crashWarningShown: newCrashWarningShown,
+      crashProbability: newCrashProbability,
+      crashSeverity: newCrashSeverity,
+      crashStartDate: newCrashStartDate,
+      circuitBreaker: breaker.halt,
+    },
+    crashEvents: newCrashEvents,
+    gameOver,
+  };
+};
+
+// `market` must be the state already advanced for this step, so a crash, severity or
+// index move on a given day drives stock prices that same day
+export const stepStocks = (
+  prevStocks: Stock[],
+  market: MarketState,
+  settings: SimulationSettings,
+  random: Random,
+  sessions: number = 1
+): Stock[] => {
+  const model = getPriceModel(settings.priceModel);
+
+  return prevStocks.map(stock => {
+    // Halted and failed companies don't trade
+    if (!isTradable(stock)) return { ...stock, sessionTicks: undefined };
+
+    const volatilityFactor = getVolatilityFactor(stock.volatility);
+    const replay = settings.marketMode === 'historical'
+      ? getHistoricalStockPrice(stock, market.currentDate, volatilityFactor * settings.volatilityFactor, random, sessions)
+      : undefined;
+    const newPrice = Math.max(0.1, replay?.price ?? model.nextPrice({ stock, market, settings, random, sessions }));
+
+    const sessionTicks = buildSessionTicks(
+      market.currentDate,
+      stock.price,
+      newPrice,
+      getSessionTicks(settings),
+      0.01 * volatilityFactor * settings.volatilityFactor,
+      random
+    );
+    const volume = Math.round(
+      getBaseVolume(stock) * sessions * (1 + 10 * Math.abs(newPrice / stock.price - 1)) * (0.5 + market.sentiment) * random.float(0.7, 1.3)
+    );
+
+    return {
+      ...stock,
+      price: newPrice,
+      priceHistory: [
+        ...stock.priceHistory,
+        toPriceBar(market.currentDate, sessionTicks, volume),
+      ],
+      sessionTicks,
+      historicalScale: replay?.historicalScale ?? stock.historicalScale,
+    };
+  });
+};
+
+// What a step did to the companies the account may hold, for `settleSession` to
+// apply to the account at the close
+export interface SessionEvents {
+  sessions: number;
+  // Companies that went under
+  failures: string[];
+  dividends: DividendPayment[];
+  splits: SplitEvent[];
+  closedDeals: ClosedDeal[];
+  debuts: IpoDebut[];
+}
+
+// Simulates `sessions` trading days of the market in one go, ending at the close of the
+// last one. The account is left as it was; `settleSession` brings it up to date.
+const simulateMarket = (
+  state: SimulationState,
+  settings: SimulationSettings,
+  sessions: number
+): { close: SimulationState; events: SessionEvents } => {
+  const random = createRandom(state.rngState);
+  const steppedMarket = stepMarket(state.market, state.crashEvents, settings, random, sessions, state.scenario);
+  const { crashEvents, gameOver } = steppedMarket;
+  const stepped = stepStocks(state.stocks, steppedMarket.market, settings, random, sessions);
+  // Headlines from the market step plus this step's company stories move prices next
+  const companyNews = generateCompanyNews(stepped, steppedMarket.market, random, sessions);
+  const headlines = updateNewsShocks(
+    steppedMarket.market.newsShocks || [],
+    [...companyNews, ...steppedMarket.market.news.filter(item => item.date === steppedMarket.market.currentDate)],
+    stepped,
+    random,
+    sessions
+  );
+  // Market-wide news moves the index along with every stock
+  const market = shockMarket(steppedMarket.market, headlines.marketReturn);
+  const lifecycle = updateLifecycle(headlines.stocks, market, random, sessions);
+  const earnings = updateEarnings(lifecycle.stocks, market, random);
+  // Holders of record are whoever held the shares going into the step
+  const dividends = updateDividends(earnings.stocks, getPositions(state.account), state.market.currentDate, market.currentDate);
+  const splits = updateSplits(dividends.stocks, market.currentDate);
+  const mergers = updateMergers(adjustDealsForSplits(market.deals || [], splits.splits), splits.stocks, market, random, sessions);
+  const ipos = updateIpoCalendar(state.ipoCalendar, market, settings, random, getSessionTicks(settings));
+  // Halts come last so they freeze the session wherever everything else left it
+  const halts = updateTradingHalts(
+    mergers.stocks,
+    market,
+    [...companyNews, ...earnings.news, ...mergers.news, ...market.news.filter(item => item.date === market.currentDate)]
+  );
+  const stocks = [...halts.stocks, ...ipos.listings];
+
+  // Index volume is the combined volume of the constituents that traded this step
+  const indexVolume = stocks.reduce((total, stock) => {
+    const bar = stock.priceHistory[stock.priceHistory.length - 1];
+    return total + (bar.date === market.currentDate ? bar.volume || 0 : 0);
+  }, 0);
+  const indexBar = market.marketIndexHistory[market.marketIndexHistory.length - 1];
+
+  return {
+    close: {
+      market: {
+        ...market,
+        marketIndexHistory: [
+          ...market.marketIndexHistory.slice(0, -1),
+          { ...indexBar, volume: indexVolume },
+        ],
+        news: [...halts.news, ...ipos.news, ...mergers.news, ...splits.news, ...dividends.news, ...earnings.news, ...lifecycle.news, ...companyNews, ...market.news],
+        deals: mergers.deals,
+        newsShocks: headlines.shocks,
+      },
+      stocks,
+      crashEvents,
+      gameOver,
+      rngState: random.getState(),
+      session: null,
+      account: state.account,
+      ipoCalendar: ipos.calendar,
+      scenario: state.scenario,
+      settlement: null,
+      valuations: state.valuations,
+      result: null,
+    },
+    events: {
+      sessions,
+      failures: lifecycle.failures.map(failure => failure.stockId),
+      dividends: dividends.payments,
+      splits: splits.splits,
+      closedDeals: mergers.closed,
+      debuts: ipos.debuts,
+    },
+  };
+};
+
+// Prices are quoted split-adjusted from the session's open, so the account's shares,
+// orders and contracts are split before the player can trade at them
+const splitAccount = (account: PlayerAccount, splits: SplitEvent[]): PlayerAccount => {
+  return splits.reduce(
+    (current, split) => splitOptions(
+      splitOrders(splitHoldings(current, split.stockId, split.ratio), split.stockId, split.ratio),
+      split.stockId,
+      split.ratio
+    ),
+    account
+  );
+};
+
+// Brings `account` up to date with the market at the close: corporate actions, orders
+// worked through the session's ticks, carrying costs and margin. The account is the one
+// standing at the close, so trades made during an intraday session carry through, and
+// orders are only worked through the ticks after `workedThrough`, the last one revealed.
+const settleSession = (
+  close: SimulationState,
+  account: PlayerAccount,
+  events: SessionEvents,
+  settings: SimulationSettings,
+  workedThrough?: string
+): SimulationState => {
+  const random = createRandom(close.rngState);
+  const { market, stocks } = close;
+
+  let settled = writeOffHoldings(account, events.failures, market.currentDate);
+  settled = payDividends(scheduleDividends(settled, events.dividends), market.currentDate);
+  settled = events.closedDeals.reduce((current, { deal, acquirerPrice }) => convertHoldings(
+    current,
+    deal.targetId,
+    deal.type === 'stock'
+      ? { acquirerId: deal.acquirerId, exchangeRatio: deal.exchangeRatio, acquirerPrice }
+      : { cashPrice: deal.cashPrice },
+    market.currentDate
+  ), settled);
+  // Allocations are filled at the offer price before the debut trades
+  settled = events.debuts.reduce(
+    (current, debut) => fillIpoRequest(current, debut.stockId, debut.offerPrice, getAllocationRatio(debut.pop), market.currentDate),
+    settled
+  );
+  const options = updateOptions(settled, stocks, market.currentDate, settings);
+  const orders = fillOrders(options.account, stocks, market, current => getBuyingPower(current, stocks, settings.margin), workedThrough);
+  settled = chargeBorrowFees(orders.account, stocks, market, events.sessions);
+  const buyIns = enforceShortCollateral(settled, stocks, market, random, events.sessions, settings.margin);
+  settled = chargeMarginInterest(buyIns.account, settings.margin, events.sessions);
+  const marginCall = updateMarginCall(settled, stocks, market, settings.margin);
+
+  const valuations = recordValuation(close.valuations, {
+    date: market.currentDate,
+    netWorth: getNetWorth(marginCall.account, stocks),
+    index: market.marketIndex,
+  });
+
+  return {
+    ...close,
+    market: { ...market, news: [...marginCall.news, ...buyIns.news, ...orders.news, ...options.news, ...market.news] },
+    // Going broke ends the game whatever the calendar says
+    gameOver: close.gameOver || isBankrupt(valuations),
+    rngState: random.getState(),
+    session: null,
+    account: marginCall.account,
+    valuations,
+  };
+};
+
+// Simulates `sessions` trading days and settles the account at the close of the last one
+const runSession = (state: SimulationState, settings: SimulationSettings, sessions: number): SimulationState => {
+  const { close, events } = simulateMarket(state, settings, sessions);
+  return settleSession(close, splitAccount(state.account, events.splits), events, settings);
+};
+
+// Shortens a multi-session step so it doesn't run past the end date
+const clampToEndDate = (state: SimulationState, settings: SimulationSettings, sessions: number): number => {
+  const endDate = getEndDate(settings, state.scenario);
+  let clamped = sessions;
+  while (endDate && clamped > 1 && addTradingDays(state.market.currentDate, clamped) > endDate) {
+    clamped--;
+  }
+  return clamped;
+};
+
+// Cashes out the account and scores the game once its closing session has run
+const closeSession = (state: SimulationState, settings: SimulationSettings): SimulationState => {
+  if (!state.gameOver || state.settlement) return state;
+
+  const { account, settlement } = settleAccount(state.account, state.stocks, state.market.currentDate);
+  // The forced sales at the end say nothing about the player's timing
+  const result = getGameResult(settings.objectives ?? DEFAULT_OBJECTIVES, state.valuations, state.account.trades, state.stocks);
+  return { ...state, account, settlement, result };
+};
+
+// Settles the account as it stands after the session's trading against the close
+const closeIntradaySession = (state: SimulationState, settings: SimulationSettings): SimulationState => {
+  const { close, events, tick } = state.session!;
+  const workedThrough = close.market.sessionTicks?.[tick]?.time;
+  return closeSession(settleSession({ ...close, valuations: state.valuations }, state.account, events, settings, workedThrough), settings);
+};
+
+// Shows the session as of `tick`: prices and clock move, but bars are only
+// added to the histories once the session closes. The account is the player's own,
+// trades made on earlier ticks included, and open orders are worked through the tick.
+// Headlines about cancelled orders go into the session's close so they outlast it.
+const revealTick = (state: SimulationState, session: IntradaySession, settings: SimulationSettings): SimulationState => {
+  const { close, tick } = session;
+  const indexTicks = close.market.sessionTicks || [];
+
+  const revealed: SimulationState = {
+    ...close,
+    market: {
+      ...close.market,
+      currentTime: indexTicks[tick].time,
+      marketIndex: indexTicks[tick].price,
+      marketIndexHistory: state.market.marketIndexHistory,
+      sessionTicks: indexTicks.slice(0, tick + 1),
+    },
+    stocks: close.stocks.map(stock => {
+      const previous = state.stocks.find(s => s.id === stock.id);
+      const ticks = stock.sessionTicks || [];
+
+      if (ticks.length <= tick) {
+        return previous ? { ...stock, price: previous.price, priceHistory: previous.priceHistory } : stock;
+      }
+
+      return {
+        ...stock,
+        price: ticks[tick].price,
+        priceHistory: previous ? previous.priceHistory : stock.priceHistory.slice(0, -1),
+        sessionTicks: ticks.slice(0, tick + 1),
+      };
+    }),
+    gameOver: false,
+    account: state.account,
+    valuations: state.valuations,
+    session,
+  };
+
+  const orders = workOrders(
+    state.account,
+    revealed.stocks,
+    revealed.market,
+    current => getBuyingPower(current, revealed.stocks, settings.margin),
+    tick > 0 ? indexTicks[tick - 1].time : undefined
+  );
+  if (orders.news.length === 0) return { ...revealed, account: orders.account };
+
+  const news = [...orders.news, ...close.market.news];
+  return {
+    ...revealed,
+    market: { ...revealed.market, news },
+    account: orders.account,
+    session: { ...session, close: { ...close, market: { ...close.market, news } } },
+  };
+};
+
+// Advances the simulation by one step. In intraday mode a step is one tick of the
+// current session; otherwise it is `sessions` whole trading days.
+export const stepSimulation = (
+  state: SimulationState,
+  settings: SimulationSettings,
+  sessions: number = settings.timeScale
+): SimulationState => {
+  if (state.gameOver) return state;
+
+  const ticks = settings.intradayTicks || 0;
+  if (ticks <= 1) {
+    return closeSession(runSession(state, settings, clampToEndDate(state, settings, sessions)), settings);
+  }
+
+  if (!state.session) {
+    const { close, events } = simulateMarket(state, settings, 1);
+    return revealTick({ ...state, account: splitAccount(state.account, events.splits) }, { tick: 0, close, events }, settings);
+  }
+
+  const tick = state.session.tick + 1;
+  return tick >= ticks - 1 ? closeIntradaySession(state, settings) : revealTick(state, { ...state.session, tick }, settings);
+};
+
+// Runs to the close of the session in progress, or through the next whole session
+export const finishSession = (state: SimulationState, settings: SimulationSettings): SimulationState => {
+  if (state.gameOver) return state;
+
+  return state.session ? closeIntradaySession(state, settings) : closeSession(runSession(state, settings, 1), settings);
+};
+
+// Why an order for the stock would be rejected right now, or null if it can trade
+export const getTradeRejection = (state: SimulationState, stockId: string): string | null => {
+  const stock = state.stocks.find(s => s.id === stockId);
+  if (!stock) return 'Unknown stock';
+  return getTradingHaltReason(state.market, stock);
+};
+
+// A margin account can borrow for the purchase; see `getBuyingPower`
+export const buyStock = (
+  state: SimulationState,
+  stockId: string,
+  shares: number,
+  margin?: MarginSettings
+): SimulationState => {
+  const stock = state.stocks.find(s => s.id === stockId);
+  if (!stock || getTradeRejection(state, stockId)) return state;
+
+  return {
+    ...state,
+    account: buyShares(
+      state.account,
+      stock,
+      shares,
+      state.market.currentDate,
+      getFillPrice(stock, 'buy', shares),
+      getBuyingPower(state.account, state.stocks, margin)
+    ),
+  };
+};
+
+// `lotIds` picks the lots sold when the account identifies them specifically
+export const sellStock = (state: SimulationState, stockId: string, shares: number, lotIds?: number[]): SimulationState => {
+  const stock = state.stocks.find(s => s.id === stockId);
+  if (!stock || getTradeRejection(state, stockId)) return state;
+
+  return {
+    ...state,
+    account: sellShares(state.account, stock, shares, state.market.currentDate, sold => getFillPrice(stock, 'sell', sold), undefined, lotIds),
+  };
+};
+
+export const setLotMethod = (state: SimulationState, method: LotMethod): SimulationState => {
+  return { ...state, account: { ...state.account, ledger: setLedgerLotMethod(state.account.ledger, method) } };
+};
+
+// Opening a short needs the collateral for it on top of the existing shorts; on margin
+// the longs count towards it (see `getCollateral`)
+export const shortStock = (
+  state: SimulationState,
+  stockId: string,
+  shares: number,
+  margin?: MarginSettings
+): SimulationState => {
+  const stock = state.stocks.find(s => s.id === stockId);
+  if (!stock || getTradeRejection(state, stockId) || !canOpenShort(state.account, state.stocks, stock, shares, state.market, margin)) return state;
+
+  return { ...state, account: shortShares(state.account, stock, shares, state.market.currentDate, getFillPrice(stock, 'sell', shares)) };
+};
+
+export const coverStock = (state: SimulationState, stockId: string, shares: number): SimulationState => {
+  const stock = state.stocks.find(s => s.id === stockId);
+  if (!stock || getTradeRejection(state, stockId)) return state;
+
+  return {
+    ...state,
+    account: coverShares(state.account, stock, shares, state.market.currentDate, covered => getFillPrice(stock, 'buy', covered)),
+  };
+};
+
+// Only contracts from the stock's current chain can be opened: a listed expiry and a
+// strike on the grid for its price. Premiums are priced at the volatility `settings`
+// simulate the stock with.
+export const buyOption = (
+  state: SimulationState,
+  contract: OptionContract,
+  contracts: number,
+  delivery: OptionDelivery,
+  settings: SimulationSettings
+): SimulationState => {
+  const stock = state.stocks.find(s => s.id === contract.stockId);
+  if (!stock || getTradeRejection(state, stock.id)) return state;
+  if (!getExpiries(state.market.currentDate).includes(contract.expiry) || !getStrikes(stock.price).includes(contract.strike)) return state;
+
+  const quote = getOptionQuote(contract, stock, state.market.currentDate, getEffectiveVolatility(stock, settings));
+  return { ...state, account: buyOptions(state.account, contract, contracts, quote, delivery) };
+};
+
+export const sellOption = (
+  state: SimulationState,
+  contractId: string,
+  contracts: number,
+  settings: SimulationSettings
+): SimulationState => {
+  const position = state.account.options[contractId];
+  const stock = position && state.stocks.find(s => s.id === position.contract.stockId);
+  if (!stock || getTradeRejection(state, stock.id)) return state;
+
+  const quote = getOptionQuote(position.contract, stock, state.market.currentDate, getEffectiveVolatility(stock, settings));
+  return { ...state, account: sellOptions(state.account, contractId, contracts, quote) };
+};
+
+export const placeOrder = (state: SimulationState, request: OrderRequest): SimulationState => {
+  const stock = state.stocks.find(s => s.id === request.stockId);
+  if (!stock || !isActive(stock)) return state;
+
+  // Mid-session orders only work the ticks still to come
+  const time = state.session ? state.market.currentTime : undefined;
+  return { ...state, account: placeAccountOrder(state.account, request, state.market.currentDate, time) };
+};
+
+export const cancelOrder = (state: SimulationState, orderId: number): SimulationState => {
+  return { ...state, account: cancelAccountOrder(state.account, orderId) };
+};
+
+// Allocations can only be requested once the deal's terms have been announced
+export const requestIpoAllocation = (state: SimulationState, stockId: string, shares: number): SimulationState => {
+  const ipo = state.ipoCalendar.find(upcoming => upcoming.stock.id === stockId);
+  if (!ipo || !ipo.announced) return state;
+
+  return { ...state, account: requestIpoShares(state.account, stockId, ipo.offerPrice, shares) };
+};
@@ -0,0 +1,320 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { Random } from './random';
+import { isTradable, getStockStatus } from './companyLifecycle';
+import { addTradingDays } from './tradingCalendar';
+import { SplitEvent } from './stockSplits';
+
+// Mergers and acquisitions. A deal is announced at a premium to the target's price with a
+// closing date a few months out. Until then the target trades at a spread to the deal
+// value that reflects the chance the deal falls apart; if it does, the shares drop back
+// to what the company is worth on its own. At closing the target leaves the market and
+// its holders get acquirer shares or cash.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface MergerDeal {
+  id: string;
+  acquirerId: string;
+  targetId: string;
+  type: 'stock' | 'cash';
+  // Acquirer shares per target share (stock deals) or dollars per share (cash deals)
+  exchangeRatio: number;
+  cashPrice: number;
+  announcedDate: string;
+  closingDate: string;
+  // What the target would trade at without the deal, tracked so a break has somewhere to fall to
+  standalonePrice: number;
+}
+
+// Scripted deals in the company data, keyed by the target
+export interface ScheduledAcquisition {
+  acquirer: string;
+  announceDate: string;
+  type: 'stock' | 'cash';
+  premium: number;
+}
+
+export interface ClosedDeal {
+  deal: MergerDeal;
+  // Acquirer price at closing, for cash in lieu of fractional shares
+  acquirerPrice: number;
+}
+
+// Chance per session that some company announces a takeover
+const STAGE_DEAL_HAZARD: { [stage in BubbleStage]: number } = {
+  early: 0.002,
+  growth: 0.003,
+  mania: 0.004,
+  peak: 0.003,
+  decline: 0.001,
+  crash: 0.001,
+  // Survivors pick up the pieces cheaply once the dust settles
+  bottom: 0.002,
+  recovery: 0.003,
+};
+
+// Annualized chance a pending deal falls apart; financing and nerves dry up in a crash
+const STAGE_BREAK_RATE: { [stage in BubbleStage]: number } = {
+  early: 0.1,
+  growth: 0.1,
+  mania: 0.1,
+  peak: 0.15,
+  decline: 0.3,
+  crash: 0.6,
+  bottom: 0.3,
+  recovery: 0.15,
+};
+
+const TRADING_DAYS_PER_YEAR = 252;
+const MIN_CLOSING_SESSIONS = 40;
+const MAX_CLOSING_SESSIONS = 90;
+
+const toStockId = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isInDeal = (deals: MergerDeal[], stockId: string): boolean => {
+  return deals.some(deal => deal.acquirerId === stockId || deal.targetId === stockId);
+};
+
+export const getDealValue = (deal: MergerDeal, acquirer: Stock): number => {
+  return deal.type === 'stock' ? deal.exchangeRatio * acquirer.price : deal.cashPrice;
+};
+
+// Chance the deal still breaks before closing, given the sessions left
+const getBreakProbability = (deal: MergerDeal, market: MarketState): number => {
+  let sessionsLeft = 0;
+  for (let date = market.currentDate; date < deal.closingDate; date = addTradingDays(date, 1)) {
+    sessionsLeft++;
+  }
+  return Math.min(0.9, (STAGE_BREAK_RATE[market.bubbleStage] / TRADING_DAYS_PER_YEAR) * sessionsLeft);
+};
+
+const formatPrice = (price: number): string => `$${price.toFixed(2)}`;
+
+const createDeal = (
+  acquirer: Stock,
+  target: Stock,
+  type: MergerDeal['type'],
+  premium: number,
+  date: string,
+  closingSessions: number
+): MergerDeal => {
+  const offer = target.price * (1 + premium);
+
+  return {
+    id: `deal-${target.id}-${date}`,
+    acquirerId: acquirer.id,
+    targetId: target.id,
+    type,
+    exchangeRatio: type === 'stock' ? offer / acquirer.price : 0,
+    cashPrice: type === 'cash' ? offer : 0,
+    announcedDate: date,
+    closingDate: addTradingDays(date, closingSessions),
+    standalonePrice: target.price,
+  };
+};
+
+const createAnnouncementNews = (deal: MergerDeal, acquirer: Stock, target: Stock): NewsItem => {
+  const offer = getDealValue(deal, acquirer);
+  const premium = Math.round((offer / deal.standalonePrice - 1) * 100);
+  const terms = deal.type === 'stock'
+    ? `${deal.exchangeRatio.toFixed(3)} ${acquirer.symbol} shares for each ${target.symbol} share`
+    : `${formatPrice(deal.cashPrice)} a share in cash`;
+
+  return {
+    id: `${deal.id}-announced`,
+    date: deal.announcedDate,
+    headline: `${acquirer.name} to Acquire ${target.name} in ${formatPrice(offer)}-a-Share ${deal.type === 'stock' ? 'Stock' : 'Cash'} Deal`,
+    content: `${acquirer.name} has agreed to buy ${target.name} for ${terms}, a ${premium}% premium to yesterday's close. The deal is expected to close by ${deal.closingDate}, subject to shareholder and regulatory approval.`,
+    impact: 'positive',
+    stockId: target.id,
+  };
+};
+
+const createBreakNews = (deal: MergerDeal, acquirer: Stock, target: Stock, date: string): NewsItem => ({
+  id: `${deal.id}-broken`,
+  date,
+  headline: `${acquirer.name}-${target.name} Deal Collapses`,
+  content: `${acquirer.name} has walked away from its agreement to acquire ${target.name}. Arbitrageurs who bet on the deal rushed for the exits, sending ${target.symbol} back toward its pre-deal price.`,
+  impact: 'negative',
+  stockId: target.id,
+});
+
+const createClosingNews = (deal: MergerDeal, acquirer: Stock, target: Stock, date: string): NewsItem => ({
+  id: `${deal.id}-closed`,
+  date,
+  headline: `${acquirer.name} Completes Acquisition of ${target.name}`,
+  content: deal.type === 'stock'
+    ? `${target.name} shares stopped trading today. Each ${target.symbol} share has been converted into ${deal.exchangeRatio.toFixed(3)} shares of ${acquirer.name}.`
+    : `${target.name} shares stopped trading today. Holders receive ${formatPrice(deal.cashPrice)} in cash for each share.`,
+  impact: 'neutral',
+  stockId: target.id,
+});
+
+// Picks a buyer with a strong business and a target that isn't already spoken for,
+// preferring a target in the buyer's own sector
+const proposeDeal = (stocks: Stock[], deals: MergerDeal[], market: MarketState, random: Random): MergerDeal | null => {
+  const available = stocks.filter(stock => isTradable(stock) && !isInDeal(deals, stock.id));
+  const acquirers = available.filter(stock => stock.survivalChance === 'high' || stock.survivalChance === 'very high');
+  if (acquirers.length === 0) return null;
+
+  const acquirer = acquirers[random.int(0, acquirers.length - 1)];
+  const candidates = available.filter(stock => stock.id !== acquirer.id && stock.survivalChance !== 'very high');
+  const sameSector = candidates.filter(stock => stock.category === acquirer.category);
+  const pool = sameSector.length > 0 && random.next() < 0.5 ? sameSector : candidates;
+  if (pool.length === 0) return null;
+
+  const target = pool[random.int(0, pool.length - 1)];
+  // Inflated paper makes stock deals the currency of the boom
+  const boom = market.bubbleStage === 'growth' || market.bubbleStage === 'mania' || market.bubbleStage === 'peak';
+  const type = random.next() < (boom ? 0.7 : 0.2) ? 'stock' : 'cash';
+
+  return createDeal(acquirer, target, type, random.float(0.2, 0.6), market.currentDate, random.int(MIN_CLOSING_SESSIONS, MAX_CLOSING_SESSIONS));
+};
+
+// Keeps exchange ratios and cash terms per share when either side splits
+export const adjustDealsForSplits = (deals: MergerDeal[], splits: SplitEvent[]): MergerDeal[] => {
+  if (splits.length === 0) return deals;
+
+  return deals.map(deal => splits.reduce((current, split) => {
+    if (split.stockId === current.acquirerId) {
+      return { ...current, exchangeRatio: current.exchangeRatio * split.ratio };
+    }
+    if (split.stockId === current.targetId) {
+      return {
+        ...current,
+        exchangeRatio: current.exchangeRatio / split.ratio,
+        cashPrice: current.cashPrice / split.ratio,
+        standalonePrice: current.standalonePrice / split.ratio,
+      };
+    }
+    return current;
+  }, deal));
+};
+
+// Runs once the step's prices, dividends and splits are in. Announces new deals, reprices
+// pending ones and settles those that break or reach their closing date.
+export const updateMergers = (
+  deals: MergerDeal[],
+  stocks: Stock[],
+  market: MarketState,
+  random: Random,
+  sessions: number
+): { deals: MergerDeal[]; stocks: Stock[]; closed: ClosedDeal[]; news: NewsItem[] } => {
+  const date = market.currentDate;
+  const news: NewsItem[] = [];
+  const closed: ClosedDeal[] = [];
+  const remaining: MergerDeal[] = [];
+  const updates: { [stockId: string]: Partial<Stock> } = {};
+  const findStock = (stockId: string) => stocks.find(stock => stock.id === stockId);
+  const breakHazard = (STAGE_BREAK_RATE[market.bubbleStage] / TRADING_DAYS_PER_YEAR) * sessions;
+
+  deals.forEach(deal => {
+    const acquirer = findStock(deal.acquirerId);
+    const target = findStock(deal.targetId);
+    if (!acquirer || !target) return;
+
+    // The target's own move this step, from its split-adjusted history
+    const history = target.priceHistory;
+    const traded = history.length > 1 && history[history.length - 1].date === date;
+    const standaloneMove = traded ? history[history.length - 1].price / history[history.length - 2].price : 1;
+    const standalonePrice = deal.standalonePrice * standaloneMove;
+
+    // A failed buyer or target takes the deal down with it
+    const failed = !isTradable(acquirer) || !isTradable(target);
+    if (failed || random.next() < breakHazard) {
+      const item = createBreakNews(deal, acquirer, target, date);
+      news.push(item);
+      if (isTradable(target)) {
+        updates[target.id] = { price: standalonePrice, news: [item, ...target.news] };
+      }
+      return;
+    }
+
+    if (date >= deal.closingDate) {
+      const item = createClosingNews(deal, acquirer, target, date);
+      news.push(item);
+      closed.push({ deal, acquirerPrice: acquirer.price });
+      updates[target.id] = {
+        price: getDealValue(deal, acquirer),
+        status: 'acquired',
+        statusDate: date,
+        news: [item, ...target.news],
+      };
+      return;
+    }
+
+    // Arbitrage pricing: the deal value weighted by the chance it closes
+    const current = { ...deal, standalonePrice };
+    const breakProbability = getBreakProbability(current, market);
+    updates[target.id] = {
+      price: (1 - breakProbability) * getDealValue(current, acquirer) + breakProbability * standalonePrice,
+    };
+    remaining.push(current);
+  });
+
+  // Scheduled takeovers first, then the occasional surprise
+  stocks.forEach(target => {
+    const scheduled = target.acquisition;
+    if (!scheduled || scheduled.announceDate > date || !isTradable(target) || isInDeal(remaining, target.id)) return;
+    if (closed.some(item => item.deal.targetId === target.id)) return;
+
+    const acquirer = findStock(toStockId(scheduled.acquirer));
+    if (!acquirer || !isTradable(acquirer)) return;
+
+    const deal = createDeal(acquirer, target, scheduled.type, scheduled.premium, date, random.int(MIN_CLOSING_SESSIONS, MAX_CLOSING_SESSIONS));
+    remaining.push(deal);
+    updates[target.id] = { ...updates[target.id], acquisition: undefined };
+  });
+
+  if (random.next() < STAGE_DEAL_HAZARD[market.bubbleStage] * sessions) {
+    const eligible = stocks.filter(stock => !closed.some(item => item.deal.targetId === stock.id));
+    const deal = proposeDeal(eligible, remaining, market, random);
+    if (deal) remaining.push(deal);
+  }
+
+  const updatedStocks = stocks.map(stock => {
+    const newDeal = remaining.find(deal => deal.targetId === stock.id && deal.announcedDate === date);
+    const update = updates[stock.id];
+    if (!newDeal && !update) return stock;
+
+    let updated: Stock = { ...stock, ...update };
+
+    if (newDeal) {
+      // The target jumps most of the way to the offer on the announcement
+      const acquirer = findStock(newDeal.acquirerId)!;
+      const item = createAnnouncementNews(newDeal, acquirer, stock);
+      news.push(item);
+      const breakProbability = getBreakProbability(newDeal, market);
+      updated = {
+        ...updated,
+        price: (1 - breakProbability) * getDealValue(newDeal, acquirer) + breakProbability * newDeal.standalonePrice,
+        news: [item, ...updated.news],
+      };
+    }
+
+    // Rescale the session so the bar closes at the new price
+    const factor = stock.price > 0 ? updated.price / stock.price : 1;
+    const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+    if (factor === 1 || !lastBar || lastBar.date !== date || getStockStatus(stock) !== 'listed') return updated;
+
+    return {
+      ...updated,
+      priceHistory: [
+        ...stock.priceHistory.slice(0, -1),
+        {
+          ...lastBar,
+          price: updated.price,
+          open: lastBar.open !== undefined ? lastBar.open * factor : undefined,
+          high: lastBar.high !== undefined ? Math.max(lastBar.high * factor, updated.price) : undefined,
+          low: lastBar.low !== undefined ? Math.min(lastBar.low * factor, updated.price) : undefined,
+        },
+      ],
+      sessionTicks: stock.sessionTicks?.map((tick, i, ticks) => ({
+        ...tick,
+        price: i === ticks.length - 1 ? updated.price : tick.price * factor,
+      })),
+    };
+  });
+
+  return { deals: remaining, stocks: updatedStocks, closed, news };
+};
@@ -0,0 +1,46 @@
+import { updateNewsShocks, shockMarket } from './newsImpact';
+import { createRandom } from './random';
+import { createTestStock, createTestMarket, TEST_DATE } from './testFixtures';
+import { MarketState, NewsItem } from './stockMarketSimulation';
+
+const stock = createTestStock('Yahoo', { price: 100 });
+
+const market: MarketState = {
+  ...createTestMarket(),
+  marketIndex: 2800,
+  marketIndexHistory: [{ date: TEST_DATE, price: 2800, open: 2750, high: 2810, low: 2740 }],
+  sessionTicks: [{ time: '09:30', price: 2750 }, { time: '16:00', price: 2800 }],
+};
+
+const headline = (impact: NewsItem['impact'], fields: Partial<NewsItem> = {}): NewsItem => ({
+  id: `test-${impact}`,
+  date: TEST_DATE,
+  headline: 'Fed Raises Rates',
+  content: '',
+  impact,
+  ...fields,
+});
+
+test('market-wide headlines move the index as well as every stock', () => {
+  const shocked = updateNewsShocks([], [headline('negative')], [stock], createRandom(1), 1);
+  expect(shocked.marketReturn).toBeLessThan(0);
+  expect(shocked.stocks[0].price / stock.price).toBeCloseTo(Math.exp(shocked.marketReturn));
+
+  const moved = shockMarket(market, shocked.marketReturn);
+  const factor = Math.exp(shocked.marketReturn);
+  expect(moved.marketIndex).toBeCloseTo(2800 * factor);
+  expect(moved.marketIndexHistory[0]).toMatchObject({ date: TEST_DATE, price: 2800 * factor, low: 2740 * factor });
+  expect(moved.sessionTicks![0].price).toBeCloseTo(2750 * factor);
+
+  // What's left of the shock keeps moving the index the next step
+  const next = updateNewsShocks(shocked.shocks, [], [stock], createRandom(2), 1);
+  expect(next.marketReturn).toBeCloseTo(shocked.marketReturn / 2);
+});
+
+test('company and sector headlines leave the index alone', () => {
+  const items = [headline('positive', { stockId: stock.id }), headline('negative', { id: 'sector', sector: stock.category })];
+  const shocked = updateNewsShocks([], items, [stock], createRandom(1), 1);
+  expect(shocked.stocks[0].price).not.toBe(stock.price);
+  expect(shocked.marketReturn).toBe(0);
+  expect(shockMarket(market, shocked.marketReturn)).toBe(market);
+});
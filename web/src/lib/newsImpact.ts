@@ -0,0 +1,218 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { Random } from './random';
+import { isTradable } from './companyLifecycle';
+import { getSectorProfile } from './sectorFactors';
+
+// News that moves prices. Every headline the step produces becomes a shock: a company
+// story hits its own stock, a sector story (`NewsItem.sector`) hits every member, and
+// anything else hits the whole market, the index included. The market doesn't digest
+// news at once, so a shock is spread over the following sessions, most of it landing on
+// the first day.
+// Corporate events (earnings, splits, deals, ...) reprice their stocks themselves and
+// don't come through here.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface NewsShock {
+  newsId: string;
+  stockId?: string;
+  sector?: string;
+  // Total log return the news is worth
+  size: number;
+  // Fraction of `size` still to be priced in
+  remaining: number;
+}
+
+// Fraction of the outstanding shock still unpriced after each session
+const NEWS_DECAY = 0.5;
+// Shocks this close to fully priced in are dropped
+const MIN_REMAINING = 0.02;
+
+// Chance per stock per session of a company headline
+const COMPANY_NEWS_PROBABILITY = 0.004;
+
+// Share of company headlines that are good news in each stage
+const STAGE_GOOD_NEWS: { [stage in BubbleStage]: number } = {
+  early: 0.6,
+  growth: 0.65,
+  mania: 0.75,
+  peak: 0.55,
+  decline: 0.35,
+  crash: 0.25,
+  bottom: 0.4,
+  recovery: 0.55,
+};
+
+interface CompanyStory {
+  headline: (stock: Stock) => string;
+  content: (stock: Stock) => string;
+}
+
+const GOOD_STORIES: CompanyStory[] = [
+  {
+    headline: stock => `${stock.name} Signs Portal Partnership Deal`,
+    content: stock => `${stock.name} (${stock.symbol}) will be featured across a major web portal under a multi-year marketing agreement, putting the company in front of millions of surfers.`,
+  },
+  {
+    headline: stock => `Analyst Upgrades ${stock.name} to Strong Buy`,
+    content: stock => `A prominent Wall Street analyst raised ${stock.symbol} to strong buy, calling ${stock.name} a category killer with years of growth ahead.`,
+  },
+  {
+    headline: stock => `${stock.name} Unveils New Product Line`,
+    content: stock => `${stock.name} launched a new range of services today, which management says will expand its addressable market several times over.`,
+  },
+  {
+    headline: stock => `${stock.name} Reports Surge in Site Traffic`,
+    content: stock => `Unique visitors to ${stock.name}'s site more than doubled over the past quarter, according to an industry ratings firm.`,
+  },
+];
+
+const BAD_STORIES: CompanyStory[] = [
+  {
+    headline: stock => `Analyst Downgrades ${stock.name}, Citing Valuation`,
+    content: stock => `A Wall Street analyst cut ${stock.symbol} to hold, warning that ${stock.name}'s share price assumes growth the business may never deliver.`,
+  },
+  {
+    headline: stock => `${stock.name} Executive Departs Abruptly`,
+    content: stock => `A senior executive at ${stock.name} (${stock.symbol}) resigned without explanation, raising questions on the Street about the company's direction.`,
+  },
+  {
+    headline: stock => `${stock.name} Site Suffers Extended Outage`,
+    content: stock => `Customers were unable to reach ${stock.name}'s site for most of the day after a server failure, the latest in a string of technical problems.`,
+  },
+  {
+    headline: stock => `Regulators Question ${stock.name}'s Accounting`,
+    content: stock => `The SEC has asked ${stock.name} for details of how it books revenue, according to people familiar with the matter.`,
+  },
+];
+
+// Draws the size of the move a headline is worth; neutral news moves nothing
+const createShock = (item: NewsItem, stocks: Stock[], random: Random): NewsShock | null => {
+  if (item.impact === 'neutral') return null;
+  const sign = item.impact === 'positive' ? 1 : -1;
+
+  let magnitude: number;
+  if (item.stockId) {
+    const stock = stocks.find(s => s.id === item.stockId);
+    if (!stock) return null;
+    magnitude = random.float(0.03, 0.1) * (0.5 + getSectorProfile(stock.category).speculation);
+  } else if (item.sector) {
+    magnitude = random.float(0.05, 0.15) * (0.5 + getSectorProfile(item.sector).speculation);
+  } else {
+    magnitude = random.float(0.02, 0.05);
+  }
+
+  return { newsId: item.id, stockId: item.stockId, sector: item.sector, size: sign * magnitude, remaining: 1 };
+};
+
+const affects = (shock: NewsShock | NewsItem, stock: Stock): boolean => {
+  if (shock.stockId) return shock.stockId === stock.id;
+  if (shock.sector) return shock.sector === stock.category;
+  return true;
+};
+
+// Random company headlines for the step, sized later like any other news
+export const generateCompanyNews = (stocks: Stock[], market: MarketState, random: Random, sessions: number): NewsItem[] => {
+  const news: NewsItem[] = [];
+
+  stocks.forEach(stock => {
+    if (!isTradable(stock) || random.next() >= COMPANY_NEWS_PROBABILITY * sessions) return;
+
+    const isGood = random.next() < STAGE_GOOD_NEWS[market.bubbleStage];
+    const stories = isGood ? GOOD_STORIES : BAD_STORIES;
+    const story = stories[random.int(0, stories.length - 1)];
+
+    news.push({
+      id: `company-${stock.id}-${market.currentDate}`,
+      date: market.currentDate,
+      headline: story.headline(stock),
+      content: story.content(stock),
+      impact: isGood ? 'positive' : 'negative',
+      stockId: stock.id,
+    });
+  });
+
+  return news;
+};
+
+const isMarketWide = (shock: NewsShock): boolean => !shock.stockId && !shock.sector;
+
+// Turns `items` into shocks, prices in this step's share of every outstanding shock and
+// files each stock and sector story with the stocks it moved. `stocks` must already
+// hold the step's session bars. `marketReturn` is the log return market-wide news is
+// worth this step, for `shockMarket` to apply to the index.
+export const updateNewsShocks = (
+  shocks: NewsShock[],
+  items: NewsItem[],
+  stocks: Stock[],
+  random: Random,
+  sessions: number
+): { stocks: Stock[]; shocks: NewsShock[]; marketReturn: number } => {
+  const fresh = items
+    .map(item => createShock(item, stocks, random))
+    .filter((shock): shock is NewsShock => shock !== null);
+  const active = [...shocks, ...fresh];
+  const decay = Math.pow(NEWS_DECAY, sessions);
+
+  const updatedStocks = stocks.map(stock => {
+    const stories = items.filter(item => (item.stockId || item.sector) && affects(item, stock));
+    if (!isTradable(stock)) return stories.length ? { ...stock, news: [...stories, ...stock.news] } : stock;
+
+    const logReturn = active
+      .filter(shock => affects(shock, stock))
+      .reduce((total, shock) => total + shock.size * shock.remaining * (1 - decay), 0);
+    if (logReturn === 0 && stories.length === 0) return stock;
+
+    const factor = Math.exp(logReturn);
+    const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+    return {
+      ...stock,
+      price: stock.price * factor,
+      priceHistory: [
+        ...stock.priceHistory.slice(0, -1),
+        {
+          ...lastBar,
+          price: lastBar.price * factor,
+          open: lastBar.open !== undefined ? lastBar.open * factor : undefined,
+          high: lastBar.high !== undefined ? lastBar.high * factor : undefined,
+          low: lastBar.low !== undefined ? lastBar.low * factor : undefined,
+        },
+      ],
+      sessionTicks: stock.sessionTicks?.map(tick => ({ ...tick, price: tick.price * factor })),
+      news: [...stories, ...stock.news],
+    };
+  });
+
+  const remaining = active
+    .map(shock => ({ ...shock, remaining: shock.remaining * decay }))
+    .filter(shock => shock.remaining >= MIN_REMAINING);
+
+  const marketReturn = active
+    .filter(isMarketWide)
+    .reduce((total, shock) => total + shock.size * shock.remaining * (1 - decay), 0);
+
+  return { stocks: updatedStocks, shocks: remaining, marketReturn };
+};
+
+// Moves the index, its latest bar and the session's ticks by `logReturn`
+export const shockMarket = (market: MarketState, logReturn: number): MarketState => {
+  if (logReturn === 0) return market;
+
+  const factor = Math.exp(logReturn);
+  const lastBar = market.marketIndexHistory[market.marketIndexHistory.length - 1];
+  return {
+    ...market,
+    marketIndex: market.marketIndex * factor,
+    marketIndexHistory: [
+      ...market.marketIndexHistory.slice(0, -1),
+      {
+        ...lastBar,
+        price: lastBar.price * factor,
+        open: lastBar.open !== undefined ? lastBar.open * factor : undefined,
+        high: lastBar.high !== undefined ? lastBar.high * factor : undefined,
+        low: lastBar.low !== undefined ? lastBar.low * factor : undefined,
+      },
+    ],
+    sessionTicks: market.sessionTicks?.map(tick => ({ ...tick, price: tick.price * factor })),
+  };
+};
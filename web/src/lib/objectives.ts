@@ -0,0 +1,185 @@
+import { Stock } from './stockMarketSimulation';
+import { Trade } from './playerAccount';
+
+// Objectives and scoring. The game tracks the player's net worth and the index at the
+// close of every step; objectives are checked against that history as it grows, and
+// the final score weighs the return over the index against the worst drawdown and how
+// well the trades were timed. Going broke ends the game on the spot.
+
+export type Objective =
+  | { type: 'netWorth'; target: number }
+  | { type: 'beatIndex' }
+  | { type: 'maxDrawdown'; limit: number }
+  | { type: 'survive'; date: string; fraction: number };
+
+export interface ObjectiveStatus {
+  objective: Objective;
+  status: 'pending' | 'met' | 'failed';
+  // When it was met or failed
+  date?: string;
+}
+
+// Net worth and index level at the close of a step
+export interface Valuation {
+  date: string;
+  netWorth: number;
+  index: number;
+}
+
+export interface GameResult {
+  outcome: 'won' | 'lost';
+  bankrupt: boolean;
+  objectives: ObjectiveStatus[];
+  totalReturn: number;
+  indexReturn: number;
+  maxDrawdown: number;
+  // Value-weighted return of every trade to the end of the game; sales count when the
+  // stock fell afterwards
+  timing: number;
+  score: number;
+}
+
+export const objectivePresets: { id: string; name: string; objectives: Objective[] }[] = [
+  { id: 'beat-index', name: 'Beat the Index', objectives: [{ type: 'beatIndex' }] },
+  { id: 'get-rich', name: 'Turn $10K into $50K', objectives: [{ type: 'netWorth', target: 50000 }] },
+  { id: 'steady-hands', name: 'Never Lose Half', objectives: [{ type: 'maxDrawdown', limit: 0.5 }] },
+  { id: 'survivor', name: 'Reach 2003 with 75%', objectives: [{ type: 'survive', date: '2003-01-01', fraction: 0.75 }] },
+  { id: 'free-play', name: 'Free Play', objectives: [] },
+];
+
+export const DEFAULT_OBJECTIVES = objectivePresets[0].objectives;
+
+// Net worth below this is bankruptcy
+export const BANKRUPTCY_NET_WORTH = 100;
+
+const SCORE_BASE = 1000;
+// Points per unit of log return over the index
+const RETURN_WEIGHT = 1000;
+// Points lost per unit of the deepest drawdown
+const DRAWDOWN_PENALTY = 500;
+const TIMING_WEIGHT = 300;
+const OBJECTIVE_BONUS = 250;
+
+export const describeObjective = (objective: Objective): string => {
+  switch (objective.type) {
+    case 'netWorth': return `Reach a net worth of $${objective.target.toLocaleString('en-US')}`;
+    case 'beatIndex': return 'Finish ahead of the index';
+    case 'maxDrawdown': return `Never fall more than ${Math.round(objective.limit * 100)}% from your high`;
+    case 'survive': return `Hold ${Math.round(objective.fraction * 100)}% of your starting capital on ${objective.date}`;
+  }
+};
+
+// Appends the step's valuation, replacing one already recorded for the same date
+export const recordValuation = (valuations: Valuation[], valuation: Valuation): Valuation[] => {
+  const last = valuations[valuations.length - 1];
+  return last && last.date === valuation.date ? [...valuations.slice(0, -1), valuation] : [...valuations, valuation];
+};
+
+export const isBankrupt = (valuations: Valuation[]): boolean => {
+  const last = valuations[valuations.length - 1];
+  return last !== undefined && last.netWorth < BANKRUPTCY_NET_WORTH;
+};
+
+// Deepest fall from a previous high, as a fraction of that high
+export const getMaxDrawdown = (valuations: Valuation[]): number => {
+  let high = 0;
+  return valuations.reduce((worst, { netWorth }) => {
+    high = Math.max(high, netWorth);
+    return high > 0 ? Math.max(worst, 1 - netWorth / high) : worst;
+  }, 0);
+};
+
+// Where each objective stands given the history so far. Objectives still open when
+// the game ends are settled with `final`.
+export const evaluateObjectives = (
+  objectives: Objective[],
+  valuations: Valuation[],
+  final: boolean = false
+): ObjectiveStatus[] => {
+  const first = valuations[0];
+  const last = valuations[valuations.length - 1];
+
+  return objectives.map((objective): ObjectiveStatus => {
+    if (!first || !last) return { objective, status: 'pending' };
+
+    switch (objective.type) {
+      case 'netWorth': {
+        const reached = valuations.find(valuation => valuation.netWorth >= objective.target);
+        if (reached) return { objective, status: 'met', date: reached.date };
+        return { objective, status: final ? 'failed' : 'pending' };
+      }
+      case 'beatIndex': {
+        if (!final) return { objective, status: 'pending' };
+        const beat = last.netWorth / first.netWorth > last.index / first.index;
+        return { objective, status: beat ? 'met' : 'failed', date: last.date };
+      }
+      case 'maxDrawdown': {
+        let high = 0;
+        const breach = valuations.find(valuation => {
+          high = Math.max(high, valuation.netWorth);
+          return valuation.netWorth < high * (1 - objective.limit);
+        });
+        if (breach) return { objective, status: 'failed', date: breach.date };
+        return { objective, status: final ? 'met' : 'pending', date: final ? last.date : undefined };
+      }
+    }
+
+    // Survival is judged at the first close on or after its date
+    const onDate = valuations.find(valuation => valuation.date >= objective.date);
+    if (!onDate) return { objective, status: final ? 'failed' : 'pending' };
+    const survived = onDate.netWorth >= first.netWorth * objective.fraction;
+    return { objective, status: survived ? 'met' : 'failed', date: onDate.date };
+  });
+};
+
+// Value-weighted return from each trade's price to the stock's last price, with the
+// sign flipped for sales and shorts. Each trade's return is capped so one lucky pick
+// can't dominate.
+export const getTradeTiming = (trades: Trade[], stocks: Stock[]): number => {
+  let weighted = 0;
+  let value = 0;
+  trades.forEach(trade => {
+    const stock = stocks.find(s => s.id === trade.stockId);
+    if (!stock || trade.price <= 0) return;
+    const change = Math.min(3, stock.price / trade.price - 1);
+    const tradeValue = trade.shares * trade.price;
+    weighted += (trade.side === 'buy' || trade.side === 'cover' ? change : -change) * tradeValue;
+    value += tradeValue;
+  });
+  return value > 0 ? weighted / value : 0;
+};
+
+export const getGameResult = (
+  objectives: Objective[],
+  valuations: Valuation[],
+  trades: Trade[],
+  stocks: Stock[]
+): GameResult => {
+  const first = valuations[0];
+  const last = valuations[valuations.length - 1];
+  const bankrupt = isBankrupt(valuations);
+  const statuses = evaluateObjectives(objectives, valuations, true);
+
+  const totalReturn = last.netWorth / first.netWorth - 1;
+  const indexReturn = last.index / first.index - 1;
+  const maxDrawdown = getMaxDrawdown(valuations);
+  const timing = getTradeTiming(trades, stocks);
+  // Log returns, so a wipe-out isn't scored as a mere -100%
+  const excessReturn = Math.log(Math.max(last.netWorth, 1) / first.netWorth) - Math.log(last.index / first.index);
+  const met = statuses.filter(status => status.status === 'met').length;
+
+  const score = bankrupt ? 0 : Math.max(0, Math.round(
+    SCORE_BASE + RETURN_WEIGHT * excessReturn - DRAWDOWN_PENALTY * maxDrawdown + TIMING_WEIGHT * timing + OBJECTIVE_BONUS * met
+  ));
+
+  return {
+    outcome: !bankrupt && statuses.every(status => status.status === 'met') ? 'won' : 'lost',
+    bankrupt,
+    objectives: statuses,
+    totalReturn,
+    indexReturn,
+    maxDrawdown,
+    timing,
+    score,
+  };
+};
@@ -1,5 +1,7 @@
 import OpenAI from 'openai';
 import { Stock, MarketState } from './stockMarketSimulation';
+import { isActive } from './companyLifecycle';
+import { getRunwayQuarters } from './fundamentals';
 
 const openai = new OpenAI({
   apiKey: process.env.REACT_APP_OPENAI_API_KEY,
@@ -24,7 +26,20 @@ export const generateInvestmentAdvice = async (
       return sum + (stock ? stock.price * shares : 0);
     }, 0);
 
-    const topStocks = [...stocks]
+    // Latest quarter for the companies the user owns, in millions of dollars
+    const holdingFundamentals = Object.keys(portfolio).map(stockId => {
+      const stock = stocks.find(s => s.id === stockId);
+      const fundamentals = stock?.fundamentals;
+      if (!stock || !fundamentals) return null;
+      const report = fundamentals.lastReport;
+      const runway = getRunwayQuarters(fundamentals);
+      return `${stock.symbol}: revenue $${fundamentals.revenue.toFixed(1)}M, net income $${fundamentals.netIncome.toFixed(1)}M, cash $${fundamentals.cash.toFixed(1)}M`
+        + (runway < Infinity ? `, ${runway.toFixed(1)} quarters of runway` : ', profitable')
+        + (report ? `, ${report.revenue >= report.consensusRevenue ? 'beat' : 'missed'} ${report.quarter} revenue estimates` : '');
+    }).filter(Boolean);
+
+    const topStocks = stocks
+      .filter(isActive)
       .sort((a, b) => b.price - a.price)
       .slice(0, 5)
       .map(stock => `${stock.name} (${stock.symbol}): $${stock.price.toFixed(2)}`);
@@ -38,6 +53,9 @@ export const generateInvestmentAdvice = async (
       User's portfolio:
       ${portfolioStocks.length > 0 ? portfolioStocks.join('\n') : 'No stocks owned'}
       
+      Fundamentals of holdings:
+      ${holdingFundamentals.length > 0 ? holdingFundamentals.join('\n') : 'None reported'}
+      
       Cash: $${cash.toFixed(2)}
       Portfolio value: $${portfolioValue.toFixed(2)}
       Total assets: $${(cash + portfolioValue).toFixed(2)}
@@ -60,6 +78,8 @@ export const generateInvestmentAdvice = async (
       - peak: Still bullish but with some caution, suggest diversification
       - decline: Reassuring but cautious, suggest focusing on quality companies
       - crash: Acknowledge problems but look for "bargains" and survivors
+      - bottom: Humbled and defensive, talk up cash, profits and blue chips
+      - recovery: Cautiously optimistic again, favor survivors with real earnings
       
       Keep your response concise (in between 20-150 words) and conversational.
     `;
@@ -122,6 +142,8 @@ export const generateNewsHeadlines = async (
       - peak: Mix of extreme optimism and first signs of concern
       - decline: Growing concerns about profitability and business models
       - crash: Reports of bankruptcies, layoffs, and market collapse
+      - bottom: Capitulation, accounting scandals, and talk of a lost decade
+      - recovery: Tentative rebound led by profitable survivors, lingering skepticism
       
       Format the response as JSON with this structure:
       [
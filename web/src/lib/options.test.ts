@@ -0,0 +1,55 @@
+import { OptionContract, getOptionValue, getOptionQuote, getExpiries } from './options';
+import { priceModels, getEffectiveVolatility, getRealizedVolatility } from './priceModels';
+import { addTradingDays } from './tradingCalendar';
+import { createTestStock, testSettings as settings, TEST_DATE as date } from './testFixtures';
+import { SimulationSettings } from './stockMarketSimulation';
+
+const stock = createTestStock('Amazon', { price: 100 });
+
+const call: OptionContract = { stockId: stock.id, type: 'call', strike: 100, expiry: getExpiries(date)[1] };
+
+const premium = (simulation: SimulationSettings) => getOptionValue(call, stock, date, getEffectiveVolatility(stock, simulation));
+
+test('premiums follow the volatility the game simulates', () => {
+  const doubled = { ...settings, volatilityFactor: 2 };
+  priceModels.forEach(model => {
+    expect(premium({ ...doubled, priceModel: model.id })).toBeGreaterThan(premium({ ...settings, priceModel: model.id }));
+  });
+
+  // The classic model's noise is per step, so longer steps mean a calmer year
+  expect(getEffectiveVolatility(stock, { ...settings, timeScale: 7 })).toBeCloseTo(getEffectiveVolatility(stock, settings) / Math.sqrt(7));
+  expect(getEffectiveVolatility(stock, { ...settings, timeScale: 7, intradayTicks: 4 })).toBeCloseTo(getEffectiveVolatility(stock, settings));
+  // Jumps add to the diffusion
+  expect(getEffectiveVolatility(stock, { ...settings, priceModel: 'jump-diffusion' }))
+    .toBeGreaterThan(getEffectiveVolatility(stock, { ...settings, priceModel: 'gbm' }));
+
+  const quote = getOptionQuote(call, stock, date, 0.9);
+  expect(quote.bid).toBeLessThan(quote.value);
+  expect(quote.ask).toBeGreaterThan(quote.value);
+});
+
+test('cheap contracts are quoted a tick wide, in sixteenths and then nickels', () => {
+  const farOut: OptionContract = { ...call, strike: 400 };
+  const before = getOptionQuote(farOut, stock, date, 0.35);
+  expect(before.ask - before.value).toBeCloseTo(1 / 32);
+
+  const decimalDate = '2001-04-09';
+  const after = getOptionQuote({ ...farOut, expiry: getExpiries(decimalDate)[0] }, stock, decimalDate, 0.35);
+  expect(after.ask - after.value).toBeCloseTo(0.025);
+});
+
+test('historical replay prices options at the stock\'s realized volatility', () => {
+  // Alternating 5% moves every session
+  const priceHistory = Array.from({ length: 21 }, (_, i) => ({
+    date: addTradingDays(date, i),
+    price: i % 2 === 0 ? 100 : 105,
+  }));
+  const replayed = { ...stock, priceHistory };
+  const realized = getRealizedVolatility(replayed)!;
+  expect(realized).toBeGreaterThan(0.5);
+  expect(getEffectiveVolatility(replayed, { ...settings, marketMode: 'historical' })).toBe(realized);
+
+  // Without the history it falls back to the model
+  expect(getRealizedVolatility(stock)).toBeUndefined();
+  expect(getEffectiveVolatility(stock, { ...settings, marketMode: 'historical' })).toBe(getEffectiveVolatility(stock, settings));
+});
@@ -0,0 +1,297 @@
+import { Stock, NewsItem, SimulationSettings } from './stockMarketSimulation';
+import { PlayerAccount, CONTRACT_SIZE, buyShares, sellShares } from './playerAccount';
+import { getEffectiveVolatility } from './priceModels';
+import { DECIMALIZATION_DATE } from './liquidity';
+import { isActive, isTradable } from './companyLifecycle';
+import { isTradingDay, previousTradingDay } from './tradingCalendar';
+
+// Listed equity options. Every stock has calls and puts at standard strikes around its
+// price for the next few monthly expiries (the third Friday, or the session before it
+// when that's a holiday). Premiums come from Black-Scholes with the volatility the
+// simulation actually moves the stock with (see `getEffectiveVolatility`), so turning
+// the game's volatility up makes options dearer, and the player buys at the ask and
+// sells at the bid around that value. Positions are long only, each contract is for
+// 100 shares, and they are marked to the model at every close.
+//
+// At expiry an in-the-money contract settles for its intrinsic value in cash, or, if the
+// player asked for delivery, as a purchase (calls) or sale (puts) of the shares at the
+// strike. Delivery falls back to cash when the account can't take it: not enough cash
+// for a call, not enough shares for a put. Contracts on a company that fails or is taken
+// over settle in cash straight away, at the last price.
+
+export type OptionType = 'call' | 'put';
+export type OptionDelivery = 'cash' | 'shares';
+
+export interface OptionContract {
+  stockId: string;
+  type: OptionType;
+  strike: number;
+  expiry: string;
+}
+
+export interface OptionPosition {
+  contract: OptionContract;
+  contracts: number;
+  // Premium paid for the contracts still held
+  cost: number;
+  // Model value per share at the last close
+  mark: number;
+  delivery: OptionDelivery;
+}
+
+export interface OptionQuote {
+  bid: number;
+  ask: number;
+  // Black-Scholes value per share
+  value: number;
+}
+
+export interface OptionChainRow {
+  strike: number;
+  call: OptionQuote;
+  put: OptionQuote;
+}
+
+export interface OptionExpiry {
+  expiry: string;
+  rows: OptionChainRow[];
+}
+
+const RISK_FREE_RATE = 0.05;
+const EXPIRIES_LISTED = 3;
+const STRIKES_EACH_SIDE = 4;
+// Option prices moved from sixteenths to nickels with decimalization, and market makers
+// wanted at least 5% a side
+const DECIMAL_OPTION_TICK = 0.05;
+const SPREAD = 0.05;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const getContractId = (contract: OptionContract): string => {
+  return `${contract.stockId}-${contract.expiry}-${contract.type}-${contract.strike.toFixed(2)}`;
+};
+
+export const describeContract = (contract: OptionContract, symbol: string): string => {
+  const [year, month] = contract.expiry.split('-');
+  const type = contract.type === 'call' ? 'Call' : 'Put';
+  return `${symbol} ${MONTHS[parseInt(month) - 1]} ${year} $${contract.strike.toFixed(2)} ${type}`;
+};
+
+// Strikes are listed $2.50 apart under $25, $5 apart under $200 and $10 apart above
+const getStrikeIncrement = (price: number): number => {
+  if (price < 25) return 2.5;
+  if (price < 200) return 5;
+  return 10;
+};
+
+export const getStrikes = (price: number): number[] => {
+  const increment = getStrikeIncrement(price);
+  const atTheMoney = Math.round(price / increment) * increment;
+  const strikes: number[] = [];
+  for (let i = -STRIKES_EACH_SIDE; i <= STRIKES_EACH_SIDE; i++) {
+    const strike = atTheMoney + i * increment;
+    if (strike > 0) strikes.push(strike);
+  }
+  return strikes;
+};
+
+// Third Friday of the month, moved back a session when the exchange is closed
+const getMonthlyExpiry = (year: number, month: number): string => {
+  const firstDay = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const day = 1 + (5 - firstDay + 7) % 7 + 14;
+  const friday = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+  return isTradingDay(friday) ? friday : previousTradingDay(friday);
+};
+
+// The next expiries after `date`; contracts stop trading on the day they expire
+export const getExpiries = (date: string): string[] => {
+  const [year, month] = date.split('-').map(part => parseInt(part));
+  const expiries: string[] = [];
+  for (let offset = 0; expiries.length < EXPIRIES_LISTED; offset++) {
+    const expiry = getMonthlyExpiry(year + Math.floor((month - 1 + offset) / 12), (month - 1 + offset) % 12 + 1);
+    if (expiry > date) expiries.push(expiry);
+  }
+  return expiries;
+};
+
+// Abramowitz and Stegun's approximation of the error function (7.1.26)
+const normalCdf = (x: number): number => {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const getIntrinsicValue = (contract: OptionContract, price: number): number => {
+  return Math.max(0, contract.type === 'call' ? price - contract.strike : contract.strike - price);
+};
+
+const getYearsToExpiry = (expiry: string, date: string): number => {
+  const days = (new Date(`${expiry}T00:00:00Z`).getTime() - new Date(`${date}T00:00:00Z`).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.max(0, days / 365);
+};
+
+// Black-Scholes value per share at annualized volatility `sigma`; on expiry day, or once
+// the stock is worthless, that's just the intrinsic value
+export const getOptionValue = (contract: OptionContract, stock: Stock, date: string, sigma: number): number => {
+  const years = getYearsToExpiry(contract.expiry, date);
+  const { strike } = contract;
+  if (years <= 0 || stock.price <= 0) return getIntrinsicValue(contract, stock.price);
+
+  const spread = sigma * Math.sqrt(years);
+  const d1 = (Math.log(stock.price / strike) + (RISK_FREE_RATE + sigma * sigma / 2) * years) / spread;
+  const d2 = d1 - spread;
+  const discountedStrike = strike * Math.exp(-RISK_FREE_RATE * years);
+
+  return contract.type === 'call'
+    ? stock.price * normalCdf(d1) - discountedStrike * normalCdf(d2)
+    : discountedStrike * normalCdf(-d2) - stock.price * normalCdf(-d1);
+};
+
+export const getOptionQuote = (contract: OptionContract, stock: Stock, date: string, sigma: number): OptionQuote => {
+  const value = getOptionValue(contract, stock, date, sigma);
+  const tick = date < DECIMALIZATION_DATE ? 1 / 16 : DECIMAL_OPTION_TICK;
+  const halfSpread = Math.max(tick / 2, value * SPREAD);
+  return { bid: Math.max(0, value - halfSpread), ask: value + halfSpread, value };
+};
+
+export const getOptionChain = (stock: Stock, date: string, sigma: number): OptionExpiry[] => {
+  return getExpiries(date).map(expiry => ({
+    expiry,
+    rows: getStrikes(stock.price).map(strike => ({
+      strike,
+      call: getOptionQuote({ stockId: stock.id, type: 'call', strike, expiry }, stock, date, sigma),
+      put: getOptionQuote({ stockId: stock.id, type: 'put', strike, expiry }, stock, date, sigma),
+    })),
+  }));
+};
+
+// Options are paid for in full, out of cash; margin doesn't lend against them
+export const buyOptions = (
+  account: PlayerAccount,
+  contract: OptionContract,
+  contracts: number,
+  quote: OptionQuote,
+  delivery: OptionDelivery
+): PlayerAccount => {
+  const cost = quote.ask * CONTRACT_SIZE * contracts;
+  if (contracts <= 0 || cost > account.cash) return account;
+
+  const id = getContractId(contract);
+  const position = account.options[id];
+  return {
+    ...account,
+    cash: account.cash - cost,
+    options: {
+      ...account.options,
+      [id]: {
+        contract,
+        contracts: (position?.contracts || 0) + contracts,
+        cost: (position?.cost || 0) + cost,
+        mark: quote.value,
+        delivery,
+      },
+    },
+  };
+};
+
+export const sellOptions = (account: PlayerAccount, contractId: string, contracts: number, quote: OptionQuote): PlayerAccount => {
+  const position = account.options[contractId];
+  const toSell = position ? Math.min(contracts, position.contracts) : 0;
+  if (toSell <= 0) return account;
+
+  const options = { ...account.options };
+  if (toSell < position.contracts) {
+    options[contractId] = {
+      ...position,
+      contracts: position.contracts - toSell,
+      cost: position.cost * (1 - toSell / position.contracts),
+      mark: quote.value,
+    };
+  } else {
+    delete options[contractId];
+  }
+
+  return { ...account, cash: account.cash + quote.bid * CONTRACT_SIZE * toSell, options };
+};
+
+// A split hands out `ratio` contracts for each one held, at a `ratio`th of the strike
+export const splitOptions = (account: PlayerAccount, stockId: string, ratio: number): PlayerAccount => {
+  const entries = Object.values(account.options).filter(position => position.contract.stockId === stockId);
+  if (entries.length === 0) return account;
+
+  const options = { ...account.options };
+  entries.forEach(position => {
+    const contract = { ...position.contract, strike: position.contract.strike / ratio };
+    delete options[getContractId(position.contract)];
+    options[getContractId(contract)] = {
+      ...position,
+      contract,
+      contracts: position.contracts * ratio,
+      mark: position.mark / ratio,
+    };
+  });
+
+  return { ...account, options };
+};
+
+const createExpiryNews = (position: OptionPosition, stock: Stock, date: string, outcome: string): NewsItem => ({
+  id: `option-${getContractId(position.contract)}-${date}`,
+  date,
+  headline: `${describeContract(position.contract, stock.symbol)} ${outcome}`,
+  content: `Your ${position.contracts} ${position.contracts === 1 ? 'contract' : 'contracts'} on ${stock.name} settled with ${stock.symbol} at $${stock.price.toFixed(2)}.`,
+  impact: 'neutral',
+  stockId: stock.id,
+});
+
+// Settles one position at the stock's last price
+const settlePosition = (account: PlayerAccount, position: OptionPosition, stock: Stock, date: string): { account: PlayerAccount; outcome: string } => {
+  const { contract } = position;
+  const intrinsic = getIntrinsicValue(contract, stock.price);
+  if (intrinsic <= 0) return { account, outcome: 'Expired Worthless' };
+
+  const shares = position.contracts * CONTRACT_SIZE;
+  if (position.delivery === 'shares' && isTradable(stock)) {
+    const strikeFill = { price: contract.strike, slippage: 0 };
+    if (contract.type === 'call' && !account.shorts[stock.id] && contract.strike * shares <= account.cash) {
+      return { account: buyShares(account, stock, shares, date, strikeFill), outcome: `Exercised: Bought ${shares} Shares` };
+    }
+    if (contract.type === 'put' && (account.portfolio[stock.id] || 0) >= shares) {
+      return { account: sellShares(account, stock, shares, date, () => strikeFill), outcome: `Exercised: Sold ${shares} Shares` };
+    }
+  }
+
+  return { account: { ...account, cash: account.cash + intrinsic * shares }, outcome: `Settled for $${(intrinsic * shares).toFixed(2)}` };
+};
+
+// Runs at the close of each step, once prices are final: settles what has expired (or
+// lost its stock) and marks everything else to the model. A step of several sessions
+// settles anything that expired along the way at the step's closing price.
+export const updateOptions = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  date: string,
+  settings: SimulationSettings
+): { account: PlayerAccount; news: NewsItem[] } => {
+  const entries = Object.entries(account.options);
+  if (entries.length === 0) return { account, news: [] };
+
+  const news: NewsItem[] = [];
+  let current: PlayerAccount = { ...account, options: {} };
+  const options: PlayerAccount['options'] = {};
+
+  entries.forEach(([id, position]) => {
+    const stock = stocks.find(s => s.id === position.contract.stockId);
+    if (!stock) return;
+
+    if (date >= position.contract.expiry || !isActive(stock)) {
+      const settled = settlePosition(current, position, stock, date);
+      current = settled.account;
+      news.push(createExpiryNews(position, stock, date, settled.outcome));
+      return;
+    }
+
+    options[id] = { ...position, mark: getOptionValue(position.contract, stock, date, getEffectiveVolatility(stock, settings)) };
+  });
+
+  return { account: { ...current, options }, news };
+};
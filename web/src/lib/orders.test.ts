@@ -0,0 +1,52 @@
+import { placeOrder, fillOrders } from './orders';
+import { createAccount, shortShares } from './playerAccount';
+import { addTradingDays } from './tradingCalendar';
+import { createTestStock, createTestMarket, TEST_DATE as date } from './testFixtures';
+
+// Dips to $90 at 11:40 and recovers by the close
+const stock = createTestStock('Amazon', {
+  price: 100,
+  sessionTicks: [
+    { time: '09:30', price: 100 },
+    { time: '11:40', price: 90 },
+    { time: '13:50', price: 95 },
+    { time: '16:00', price: 100 },
+  ],
+});
+
+const market = createTestMarket();
+
+const limitBuy = { stockId: stock.id, side: 'buy' as const, type: 'limit' as const, shares: 10, triggerPrice: 92, expiry: 'gtc' as const };
+
+test('an order placed during a session only works the ticks after it was placed', () => {
+  const before = fillOrders(placeOrder(createAccount(), limitBuy, date, '09:30'), [stock], market).account;
+  expect(before.portfolio[stock.id]).toBe(10);
+  expect(before.trades[0].price).toBeLessThanOrEqual(92);
+
+  // The dip has already traded, so the order waits for the next session
+  const after = fillOrders(placeOrder(createAccount(), limitBuy, date, '11:40'), [stock], market).account;
+  expect(after.portfolio[stock.id]).toBeUndefined();
+  expect(after.orders).toHaveLength(1);
+
+  // The next session works every tick
+  const nextDay = createTestMarket(addTradingDays(date, 1));
+  expect(fillOrders(after, [stock], nextDay).account.portfolio[stock.id]).toBe(10);
+});
+
+test('a buy-stop on a stock held short buys the short back', () => {
+  const shorted = shortShares(createAccount(), stock, 50, date);
+  const buyStop = { stockId: stock.id, side: 'buy' as const, type: 'stop' as const, shares: 50, triggerPrice: 98, expiry: 'gtc' as const };
+  const covered = fillOrders(placeOrder(shorted, buyStop, date), [stock], market);
+  expect(covered.account.shorts).toEqual({});
+  expect(covered.account.portfolio[stock.id]).toBeUndefined();
+  expect(covered.account.trades[1]).toMatchObject({ side: 'cover', shares: 50 });
+  expect(covered.account.orders).toEqual([]);
+  expect(covered.news).toEqual([]);
+
+  // Without the cash to buy it back the order is cancelled, and the player is told
+  const broke = { ...shorted, cash: 0 };
+  const cancelled = fillOrders(placeOrder(broke, buyStop, date), [stock], market);
+  expect(cancelled.account.shorts[stock.id].shares).toBe(-50);
+  expect(cancelled.account.orders).toEqual([]);
+  expect(cancelled.news[0].headline).toBe(`${stock.symbol} Order Cancelled`);
+});
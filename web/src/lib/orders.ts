@@ -0,0 +1,227 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { PlayerAccount, buyShares, sellShares, coverShares } from './playerAccount';
+import { getFillPrice } from './liquidity';
+import { isActive, isTradable } from './companyLifecycle';
+
+// Pending orders. The player's open orders sit in the account and are worked against
+// each stock's session ticks whenever a step runs, so a position can be protected while
+// the simulation runs on its own. Orders fill at the first tick that triggers them, at
+// that tick's quote, and never while the stock or the whole market is halted.
+//
+// - limit: buy at or below, or sell at or above, the trigger price
+// - stop: turns into a market order once the price trades through the trigger, against
+//   the position (a stop-loss sells when the price falls to it)
+// - stop-limit: a stop that turns into a limit order at `limitPrice` instead
+// - take-profit: turns into a market order once the price moves to the trigger in the
+//   position's favour
+//
+// A buy order on a stock held short buys the short back first, so a buy-stop can protect
+// a short. An order that triggers but can't be filled (no cash to pay for it, or no
+// shares left to sell) is cancelled, and a headline tells the player.
+//
+// Day orders are only good until the close of the step they were placed in (the session,
+// in intraday mode); good-till-cancelled orders stay until they fill, are cancelled or
+// the stock stops trading.
+
+export type OrderType = 'limit' | 'stop' | 'stop-limit' | 'take-profit';
+export type OrderExpiry = 'day' | 'gtc';
+
+export interface PendingOrder {
+  id: number;
+  stockId: string;
+  side: 'buy' | 'sell';
+  type: OrderType;
+  shares: number;
+  triggerPrice: number;
+  // Worst price a stop-limit accepts once its stop has triggered
+  limitPrice?: number;
+  expiry: OrderExpiry;
+  placedDate: string;
+  // When during the session it was placed, for orders placed while an intraday session
+  // is in progress; ticks before then don't work it
+  placedTime?: string;
+  // Set once a stop-limit's stop has traded, leaving a working limit order
+  stopped?: boolean;
+}
+
+export type OrderRequest = Omit<PendingOrder, 'id' | 'placedDate' | 'placedTime' | 'stopped'>;
+
+export const orderTypes: { id: OrderType; name: string }[] = [
+  { id: 'limit', name: 'Limit' },
+  { id: 'stop', name: 'Stop-Loss' },
+  { id: 'stop-limit', name: 'Stop-Limit' },
+  { id: 'take-profit', name: 'Take-Profit' },
+];
+
+export const placeOrder = (account: PlayerAccount, request: OrderRequest, date: string, time?: string): PlayerAccount => {
+  if (request.shares <= 0 || request.triggerPrice <= 0) return account;
+  if (request.type === 'stop-limit' && !(request.limitPrice && request.limitPrice > 0)) return account;
+
+  const id = account.orders.reduce((highest, order) => Math.max(highest, order.id), 0) + 1;
+  return { ...account, orders: [...account.orders, { ...request, id, placedDate: date, placedTime: time }] };
+};
+
+export const cancelOrder = (account: PlayerAccount, orderId: number): PlayerAccount => {
+  return { ...account, orders: account.orders.filter(order => order.id !== orderId) };
+};
+
+// A split hands out `ratio` shares for each one held, so open orders for the stock are
+// for `ratio` times the shares at a `ratio`th of the price
+export const splitOrders = (account: PlayerAccount, stockId: string, ratio: number): PlayerAccount => {
+  if (!account.orders.some(order => order.stockId === stockId)) return account;
+
+  return {
+    ...account,
+    orders: account.orders.map(order => order.stockId !== stockId ? order : {
+      ...order,
+      shares: order.shares * ratio,
+      triggerPrice: order.triggerPrice / ratio,
+      limitPrice: order.limitPrice !== undefined ? order.limitPrice / ratio : undefined,
+    }),
+  };
+};
+
+// Whether the stop (or take-profit) part of the order has traded at `price`
+const isStopTriggered = (order: PendingOrder, price: number): boolean => {
+  const fallsTo = price <= order.triggerPrice;
+  const risesTo = price >= order.triggerPrice;
+  if (order.type === 'take-profit') return order.side === 'sell' ? risesTo : fallsTo;
+  return order.side === 'sell' ? fallsTo : risesTo;
+};
+
+// The limit the fill has to respect, if any, once the order is working
+const getLimitPrice = (order: PendingOrder): number | undefined => {
+  if (order.type === 'limit') return order.triggerPrice;
+  if (order.type === 'stop-limit') return order.limitPrice;
+  return undefined;
+};
+
+// Ticks the stock traded on this step since the order was placed, and after `after` if
+// earlier ticks were already worked, cut off where a halt or circuit breaker stopped it
+const getTradedTicks = (order: PendingOrder, stock: Stock, market: MarketState, after?: string) => {
+  const haltTimes = [stock.tradingHalt, market.circuitBreaker]
+    .filter(halt => halt && halt.date === market.currentDate)
+    .map(halt => halt!.time);
+  const placedTime = order.placedDate === market.currentDate ? order.placedTime : undefined;
+  return (stock.sessionTicks || []).filter(tick => haltTimes.every(time => tick.time < time)
+    && (!placedTime || tick.time > placedTime)
+    && (!after || tick.time > after));
+};
+
+const createCancelledOrderNews = (order: PendingOrder, stock: Stock, date: string, reason: string): NewsItem => ({
+  id: `order-cancelled-${order.id}-${date}`,
+  date,
+  headline: `${stock.symbol} Order Cancelled`,
+  content: `Your order (${describeOrder(order, stock.symbol)}) triggered but was cancelled: ${reason}.`,
+  impact: 'neutral',
+  stockId: stock.id,
+});
+
+// Works one order through the step's ticks; returns the account and whether the order
+// is done with (filled, or couldn't be, with the reason it was cancelled)
+const workOrder = (
+  account: PlayerAccount,
+  order: PendingOrder,
+  stock: Stock,
+  market: MarketState,
+  getBuyingPower: (account: PlayerAccount) => number,
+  after?: string
+): { account: PlayerAccount; order: PendingOrder | null; cancelled?: string } => {
+  let working = order;
+
+  for (const tick of getTradedTicks(order, stock, market, after)) {
+    if (working.type !== 'limit' && !working.stopped) {
+      if (!isStopTriggered(working, tick.price)) continue;
+      working = { ...working, stopped: true };
+    }
+
+    const quoted: Stock = { ...stock, price: tick.price };
+    const limit = getLimitPrice(working);
+    if (working.side === 'buy') {
+      const fill = getFillPrice(quoted, 'buy', working.shares);
+      if (limit !== undefined && fill.price > limit) continue;
+      // Without the cash to pay for it the order is dropped rather than left to retry
+      const toCover = Math.min(working.shares, -(account.shorts[stock.id]?.shares ?? 0));
+      const covered = coverShares(account, quoted, toCover, market.currentDate, () => fill);
+      if (toCover > 0 && covered === account) return { account, order: null, cancelled: 'not enough cash to cover the short' };
+      const toBuy = working.shares - toCover;
+      if (toBuy <= 0) return { account: covered, order: null };
+      const bought = buyShares(covered, quoted, toBuy, market.currentDate, fill, getBuyingPower(covered));
+      if (bought === covered) return { account: covered, order: null, cancelled: 'not enough buying power' };
+      return { account: bought, order: null };
+    }
+
+    const shares = Math.min(working.shares, account.portfolio[stock.id] || 0);
+    if (shares <= 0) return { account, order: null, cancelled: 'no shares left to sell' };
+    const fill = getFillPrice(quoted, 'sell', shares);
+    if (limit !== undefined && fill.price < limit) continue;
+    return { account: sellShares(account, quoted, shares, market.currentDate, () => fill), order: null };
+  }
+
+  return { account, order: working };
+};
+
+// Works the open orders through the ticks traded after `after`, or all of the step's.
+// Intraday sessions call this as each tick is revealed, so an order fills when the price
+// reaches it rather than at the close. Orders that don't fill stay open.
+export const workOrders = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  market: MarketState,
+  getBuyingPower: (account: PlayerAccount) => number = current => current.cash,
+  after?: string
+): { account: PlayerAccount; news: NewsItem[] } => {
+  if (account.orders.length === 0) return { account, news: [] };
+
+  let current: PlayerAccount = { ...account, orders: [] };
+  const remaining: PendingOrder[] = [];
+  const news: NewsItem[] = [];
+
+  account.orders.forEach(order => {
+    const stock = stocks.find(s => s.id === order.stockId);
+    if (!stock || !isTradable(stock)) {
+      remaining.push(order);
+      return;
+    }
+
+    const worked = workOrder(current, order, stock, market, getBuyingPower, after);
+    current = worked.account;
+    if (worked.cancelled) news.push(createCancelledOrderNews(order, stock, market.currentDate, worked.cancelled));
+    if (worked.order) remaining.push(worked.order);
+  });
+
+  return { account: { ...current, orders: remaining }, news };
+};
+
+// Runs at the close, after the step's prices, halts and corporate actions are in. Orders
+// for stocks that stopped trading for good are cancelled, and day orders lapse at the end
+// of the step. Buys can spend up to `getBuyingPower`, the cash on hand unless the account
+// is on margin.
+export const fillOrders = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  market: MarketState,
+  getBuyingPower: (account: PlayerAccount) => number = current => current.cash,
+  after?: string
+): { account: PlayerAccount; news: NewsItem[] } => {
+  if (account.orders.length === 0) return { account, news: [] };
+
+  const worked = workOrders(account, stocks, market, getBuyingPower, after);
+  const orders = worked.account.orders.filter(order => {
+    const stock = stocks.find(s => s.id === order.stockId);
+    return stock !== undefined && isActive(stock) && order.expiry === 'gtc';
+  });
+  return { account: { ...worked.account, orders }, news: worked.news };
+};
+
+export const describeOrder = (order: PendingOrder, symbol: string): string => {
+  const action = `${order.side === 'buy' ? 'Buy' : 'Sell'} ${order.shares} ${symbol}`;
+  const trigger = `$${order.triggerPrice.toFixed(2)}`;
+  const expiry = order.expiry === 'day' ? 'day' : 'GTC';
+  switch (order.type) {
+    case 'limit': return `${action} limit ${trigger} (${expiry})`;
+    case 'stop': return `${action} stop ${trigger} (${expiry})`;
+    case 'stop-limit': return `${action} stop ${trigger}, limit $${order.limitPrice!.toFixed(2)}${order.stopped ? ' (stopped)' : ''} (${expiry})`;
+    case 'take-profit': return `${action} take-profit ${trigger} (${expiry})`;
+  }
+};
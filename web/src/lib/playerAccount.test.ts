@@ -0,0 +1,45 @@
+import { createAccount, restoreAccount, buyShares, shortShares, coverShares, scheduleDividends, requestIpoShares } from './playerAccount';
+import { buyOptions } from './options';
+import { placeOrder } from './orders';
+import { createTestStock } from './testFixtures';
+
+const stock = createTestStock('Yahoo', { price: 50 });
+
+test('a stock is never held long and short at once', () => {
+  const long = buyShares(createAccount(), stock, 10, '1999-10-01');
+  expect(shortShares(long, stock, 10, '1999-10-01')).toBe(long);
+
+  const short = shortShares(createAccount(), stock, 10, '1999-10-01');
+  expect(buyShares(short, stock, 10, '1999-10-01')).toBe(short);
+
+  // Covering first frees the stock to be bought
+  const covered = coverShares(short, stock, 10, '1999-10-04');
+  expect(covered.shorts[stock.id]).toBeUndefined();
+  expect(buyShares(covered, stock, 10, '1999-10-04').portfolio[stock.id]).toBe(10);
+});
+
+test('an account survives a save and load with everything it holds and owes', () => {
+  const other = createTestStock('Lycos');
+  let account = buyShares(createAccount(), stock, 20, '1999-10-01');
+  account = shortShares(account, other, 10, '1999-10-01');
+  account = buyOptions(account, { stockId: stock.id, type: 'put', strike: 45, expiry: '1999-11-19' }, 1, { bid: 1, ask: 1.25, value: 1.1 }, 'shares');
+  account = placeOrder(account, { stockId: stock.id, side: 'sell', type: 'stop', shares: 20, triggerPrice: 40, expiry: 'gtc' }, '1999-10-01');
+  account = requestIpoShares(account, 'newco', 16, 100);
+  account = scheduleDividends(account, [{ stockId: other.id, exDate: '1999-10-04', payDate: '1999-11-01', amount: -2 }]);
+  account = {
+    ...account,
+    dividendIncome: { [stock.id]: 4 },
+    marginInterest: 12.5,
+    marginCall: { date: '1999-10-04', deadline: '1999-10-07', amount: 300 },
+  };
+
+  const saved = JSON.parse(JSON.stringify(account));
+  expect(restoreAccount(saved)).toEqual(account);
+});
+
+test('accounts saved before a feature existed load with it empty', () => {
+  const restored = restoreAccount({ cash: 2500, portfolio: { [stock.id]: 10 } });
+  expect(restored).toEqual({ ...createAccount(2500), portfolio: { [stock.id]: 10 } });
+  expect(restored.shorts).toEqual({});
+  expect(restored.orders).toEqual([]);
+});
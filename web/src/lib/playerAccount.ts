@@ -0,0 +1,438 @@
+import { Stock } from './stockMarketSimulation';
+import { DividendPayment } from './dividends';
+import { Fill } from './liquidity';
+import { PendingOrder } from './orders';
+import { MarginCall } from './margin';
+import { OptionPosition } from './options';
+import { Ledger, createLedger, openLot, closeLots, splitLots, convertLots } from './taxLots';
+
+// The player's brokerage account. Kept next to the market in the simulation state so
+// corporate events (failures, IPO allocations, splits, dividends, takeovers) can settle
+// against holdings in the same step.
+
+// A buy or sale the player made, at the price it filled at. Shorts are sold and
+// covered (bought back) separately from long positions.
+export interface Trade {
+  date: string;
+  stockId: string;
+  side: 'buy' | 'sell' | 'short' | 'cover';
+  shares: number;
+  price: number;
+  // Dollars lost to the spread and market impact against the last price
+  slippage?: number;
+  // Set when the broker made the trade rather than the player
+  forced?: 'buy-in' | 'margin-call' | 'settlement';
+}
+
+// Borrowed shares sold short. `shares` is negative; `proceeds` is what the sales brought
+// in, less the part bought back since.
+export interface ShortPosition {
+  shares: number;
+  proceeds: number;
+  // Borrow fees and dividends paid to the lender so far on the shares still short
+  carryingCosts: number;
+}
+
+export const tradeSideLabels: Record<Trade['side'], string> = {
+  buy: 'Bought',
+  sell: 'Sold',
+  short: 'Shorted',
+  cover: 'Covered',
+};
+
+export interface PlayerAccount {
+  // Negative when a margin account has borrowed against its positions
+  cash: number;
+  portfolio: {[stockId: string]: number};
+  shorts: {[stockId: string]: ShortPosition};
+  // Calls and puts held, by contract (see `getContractId`)
+  options: {[contractId: string]: OptionPosition};
+  // Every buy and sale so far, oldest first
+  trades: Trade[];
+  // The open tax lots behind `portfolio`, and the gains realized closing them
+  ledger: Ledger;
+  // Open limit, stop and take-profit orders, oldest first
+  orders: PendingOrder[];
+  // Shares requested in upcoming IPOs, filled at the offer price on listing day
+  ipoRequests: {[stockId: string]: number};
+  // Dividends gone ex but not paid yet, and everything paid so far by stock
+  pendingDividends: DividendPayment[];
+  dividendIncome: {[stockId: string]: number};
+  // Interest paid on margin debt so far, and the call outstanding if equity is short
+  marginInterest: number;
+  marginCall?: MarginCall;
+}
+
+export const STARTING_CASH = 10000;
+// Shares each option contract is for
+export const CONTRACT_SIZE = 100;
+
+export const createAccount = (cash: number = STARTING_CASH): PlayerAccount => ({
+  cash,
+  portfolio: {},
+  shorts: {},
+  options: {},
+  trades: [],
+  ledger: createLedger(),
+  orders: [],
+  ipoRequests: {},
+  pendingDividends: [],
+  dividendIncome: {},
+  marginInterest: 0,
+});
+
+// An account read back from a save. Saves made before a feature was added lack its
+// fields, so those start out empty.
+export const restoreAccount = (saved: Partial<PlayerAccount>): PlayerAccount => ({
+  ...createAccount(saved.cash),
+  ...saved,
+});
+
+// Fills at the last price unless the market quoted a worse one. On margin the buying
+// power can run past the cash on hand. A short in the stock has to be covered first,
+// since a stock can't be held long and short at once.
+export const buyShares = (
+  account: PlayerAccount,
+  stock: Stock,
+  shares: number,
+  date: string,
+  fill: Fill = { price: stock.price, slippage: 0 },
+  buyingPower: number = account.cash
+): PlayerAccount => {
+  const cost = fill.price * shares;
+  if (shares <= 0 || cost > buyingPower || account.shorts[stock.id]) return account;
+
+  return {
+    ...account,
+    cash: account.cash - cost,
+    portfolio: {
+      ...account.portfolio,
+      [stock.id]: (account.portfolio[stock.id] || 0) + shares,
+    },
+    trades: [...account.trades, { date, stockId: stock.id, side: 'buy', shares, price: fill.price, slippage: fill.slippage }],
+    ledger: openLot(account.ledger, stock.id, date, shares, fill.price),
+  };
+};
+
+// `getFill` prices whatever part of the order the holding covers. `lotIds` picks the lots
+// to sell when the ledger uses specific identification.
+export const sellShares = (
+  account: PlayerAccount,
+  stock: Stock,
+  shares: number,
+  date: string,
+  getFill: (shares: number) => Fill = () => ({ price: stock.price, slippage: 0 }),
+  forced?: Trade['forced'],
+  lotIds?: number[]
+): PlayerAccount => {
+  const currentShares = account.portfolio[stock.id] || 0;
+  const sharesToSell = Math.min(shares, currentShares);
+
+  if (sharesToSell <= 0) return account;
+
+  const fill = getFill(sharesToSell);
+  const portfolio = { ...account.portfolio };
+  portfolio[stock.id] = currentShares - sharesToSell;
+
+  if (portfolio[stock.id] <= 0) {
+    delete portfolio[stock.id];
+  }
+
+  return {
+    ...account,
+    cash: account.cash + fill.price * sharesToSell,
+    portfolio,
+    trades: [...account.trades, { date, stockId: stock.id, side: 'sell', shares: sharesToSell, price: fill.price, slippage: fill.slippage, forced }],
+    ledger: closeLots(account.ledger, stock.id, sharesToSell, fill.price, date, lotIds),
+  };
+};
+
+// Sells borrowed shares. A stock can't be held long and short at once, so any long
+// position has to be sold first. Collateral is checked by the caller.
+export const shortShares = (
+  account: PlayerAccount,
+  stock: Stock,
+  shares: number,
+  date: string,
+  fill: Fill = { price: stock.price, slippage: 0 }
+): PlayerAccount => {
+  if (shares <= 0 || account.portfolio[stock.id]) return account;
+
+  const position = account.shorts[stock.id] || { shares: 0, proceeds: 0, carryingCosts: 0 };
+  return {
+    ...account,
+    cash: account.cash + fill.price * shares,
+    shorts: {
+      ...account.shorts,
+      [stock.id]: { ...position, shares: position.shares - shares, proceeds: position.proceeds + fill.price * shares },
+    },
+    trades: [...account.trades, { date, stockId: stock.id, side: 'short', shares, price: fill.price, slippage: fill.slippage }],
+  };
+};
+
+// Buys back up to `shares` of a short. One the broker forces goes through even when the
+// cash doesn't cover it.
+export const coverShares = (
+  account: PlayerAccount,
+  stock: Stock,
+  shares: number,
+  date: string,
+  getFill: (shares: number) => Fill = () => ({ price: stock.price, slippage: 0 }),
+  forced?: Trade['forced']
+): PlayerAccount => {
+  const position = account.shorts[stock.id];
+  const sharesToCover = position ? Math.min(shares, -position.shares) : 0;
+  if (sharesToCover <= 0) return account;
+
+  const fill = getFill(sharesToCover);
+  if (!forced && fill.price * sharesToCover > account.cash) return account;
+
+  const shorts = { ...account.shorts };
+  const remaining = 1 - sharesToCover / -position.shares;
+  if (remaining > 0) {
+    shorts[stock.id] = {
+      shares: position.shares + sharesToCover,
+      proceeds: position.proceeds * remaining,
+      carryingCosts: position.carryingCosts * remaining,
+    };
+  } else {
+    delete shorts[stock.id];
+  }
+
+  return {
+    ...account,
+    cash: account.cash - fill.price * sharesToCover,
+    shorts,
+    trades: [...account.trades, { date, stockId: stock.id, side: 'cover', shares: sharesToCover, price: fill.price, slippage: fill.slippage, forced }],
+  };
+};
+
+// Shares held by stock, negative for shorts
+export const getPositions = (account: PlayerAccount): {[stockId: string]: number} => {
+  return Object.entries(account.shorts).reduce(
+    (positions, [stockId, short]) => ({ ...positions, [stockId]: short.shares }),
+    { ...account.portfolio }
+  );
+};
+
+export const getOptionsValue = (account: PlayerAccount): number => {
+  return Object.values(account.options).reduce((total, position) => total + position.mark * CONTRACT_SIZE * position.contracts, 0);
+};
+
+// Cash plus holdings at their last price and options at their last mark, less what it
+// would cost to cover the shorts; halted stocks count at the price they stopped at
+export const getNetWorth = (account: PlayerAccount, stocks: Stock[]): number => {
+  return Object.entries(getPositions(account)).reduce((total, [stockId, shares]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    return total + (stock ? stock.price * shares : 0);
+  }, account.cash + getOptionsValue(account));
+};
+
+// Shares in a failed company are worth nothing; drop them from the portfolio, realizing
+// the loss. Shorts in it are closed out for free, and the proceeds are the player's to
+// keep.
+export const writeOffHoldings = (account: PlayerAccount, stockIds: string[], date: string): PlayerAccount => {
+  if (!stockIds.some(stockId => account.portfolio[stockId] || account.shorts[stockId])) return account;
+
+  const portfolio = { ...account.portfolio };
+  const shorts = { ...account.shorts };
+  let ledger = account.ledger;
+  stockIds.forEach(stockId => {
+    ledger = closeLots(ledger, stockId, portfolio[stockId] || 0, 0, date);
+    delete portfolio[stockId];
+    delete shorts[stockId];
+  });
+
+  return { ...account, portfolio, shorts, ledger };
+};
+
+// A split hands out `ratio` new shares for each one held, and owes `ratio` for each one
+// borrowed
+export const splitHoldings = (account: PlayerAccount, stockId: string, ratio: number): PlayerAccount => {
+  const shares = account.portfolio[stockId];
+  const short = account.shorts[stockId];
+  if (!shares && !short) return account;
+
+  return {
+    ...account,
+    portfolio: shares ? { ...account.portfolio, [stockId]: shares * ratio } : account.portfolio,
+    ledger: splitLots(account.ledger, stockId, ratio),
+    shorts: short ? { ...account.shorts, [stockId]: { ...short, shares: short.shares * ratio } } : account.shorts,
+  };
+};
+
+// Swaps a takeover target's shares for acquirer shares (stock deals) or cash. Fractional
+// acquirer shares are paid out in cash at the acquirer's price, as brokers do. A short
+// in the target is bought back at what the deal pays per share.
+export const convertHoldings = (
+  account: PlayerAccount,
+  targetId: string,
+  consideration: { acquirerId: string; exchangeRatio: number; acquirerPrice: number } | { cashPrice: number },
+  date: string
+): PlayerAccount => {
+  const dealValue = 'cashPrice' in consideration
+    ? consideration.cashPrice
+    : consideration.exchangeRatio * consideration.acquirerPrice;
+  const short = account.shorts[targetId];
+  const shorts = { ...account.shorts };
+  delete shorts[targetId];
+  const covered = short ? { ...account, cash: account.cash + short.shares * dealValue, shorts } : account;
+
+  const shares = covered.portfolio[targetId];
+  if (!shares) return covered;
+
+  const portfolio = { ...covered.portfolio };
+  delete portfolio[targetId];
+
+  if ('cashPrice' in consideration) {
+    return {
+      ...covered,
+      cash: covered.cash + shares * consideration.cashPrice,
+      portfolio,
+      ledger: closeLots(covered.ledger, targetId, shares, consideration.cashPrice, date),
+    };
+  }
+
+  const { acquirerId, exchangeRatio, acquirerPrice } = consideration;
+  const newShares = shares * exchangeRatio;
+  const wholeShares = Math.floor(newShares);
+  if (wholeShares > 0) {
+    portfolio[acquirerId] = (portfolio[acquirerId] || 0) + wholeShares;
+  }
+
+  return {
+    ...covered,
+    cash: covered.cash + (newShares - wholeShares) * acquirerPrice,
+    portfolio,
+    ledger: convertLots(covered.ledger, targetId, acquirerId, exchangeRatio, acquirerPrice, date),
+  };
+};
+
+export const scheduleDividends = (account: PlayerAccount, payments: DividendPayment[]): PlayerAccount => {
+  if (payments.length === 0) return account;
+
+  return { ...account, pendingDividends: [...account.pendingDividends, ...payments] };
+};
+
+// Credits every pending dividend whose payment date has arrived. Dividends owed on
+// short positions are negative, and count towards the short's carrying costs.
+export const payDividends = (account: PlayerAccount, date: string): PlayerAccount => {
+  const due = account.pendingDividends.filter(payment => payment.payDate <= date);
+  if (due.length === 0) return account;
+
+  const dividendIncome = { ...account.dividendIncome };
+  const shorts = { ...account.shorts };
+  due.forEach(payment => {
+    const short = shorts[payment.stockId];
+    if (payment.amount < 0 && short) {
+      shorts[payment.stockId] = { ...short, carryingCosts: short.carryingCosts - payment.amount };
+    } else {
+      dividendIncome[payment.stockId] = (dividendIncome[payment.stockId] || 0) + payment.amount;
+    }
+  });
+
+  return {
+    ...account,
+    cash: account.cash + due.reduce((total, payment) => total + payment.amount, 0),
+    pendingDividends: account.pendingDividends.filter(payment => payment.payDate > date),
+    dividendIncome,
+    shorts,
+  };
+};
+
+// Replaces any earlier request for the same deal; zero shares withdraws it
+export const requestIpoShares = (account: PlayerAccount, stockId: string, offerPrice: number, shares: number): PlayerAccount => {
+  if (shares < 0 || offerPrice * shares > account.cash) return account;
+
+  const ipoRequests = { ...account.ipoRequests };
+  if (shares > 0) {
+    ipoRequests[stockId] = shares;
+  } else {
+    delete ipoRequests[stockId];
+  }
+
+  return { ...account, ipoRequests };
+};
+
+// Fills a request at the offer price. The underwriters only hand out `ratio` of what was
+// asked for, and never more than the cash on hand covers.
+export const fillIpoRequest = (account: PlayerAccount, stockId: string, offerPrice: number, ratio: number, date: string): PlayerAccount => {
+  const requested = account.ipoRequests[stockId];
+  if (!requested) return account;
+
+  const ipoRequests = { ...account.ipoRequests };
+  delete ipoRequests[stockId];
+
+  const shares = Math.min(Math.floor(requested * ratio), Math.floor(account.cash / offerPrice));
+  if (shares <= 0) return { ...account, ipoRequests };
+
+  return {
+    ...account,
+    cash: account.cash - offerPrice * shares,
+    portfolio: {
+      ...account.portfolio,
+      [stockId]: (account.portfolio[stockId] || 0) + shares,
+    },
+    ipoRequests,
+    trades: [...account.trades, { date, stockId, side: 'buy', shares, price: offerPrice }],
+    ledger: openLot(account.ledger, stockId, date, shares, offerPrice),
+  };
+};
+
+export interface FinalSettlement {
+  date: string;
+  // Shares sold and the price they went for, by stock
+  sales: {[stockId: string]: { shares: number; price: number }};
+  // Short positions bought back and the price paid, by stock
+  covers: {[stockId: string]: { shares: number; price: number }};
+  // Options sold back at their last mark
+  options: number;
+  // Dividends declared but not yet paid, credited early
+  dividends: number;
+  cash: number;
+}
+
+// Closes out the account when the game ends: every holding is sold, and every short
+// covered, at its last price (a halted stock at the price it stopped trading at),
+// options go at their last mark, pending dividends are paid and unfilled IPO requests
+// and open orders lapse, leaving nothing but cash
+export const settleAccount = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  date: string
+): { account: PlayerAccount; settlement: FinalSettlement } => {
+  const sales: FinalSettlement['sales'] = {};
+  const dividends = account.pendingDividends.reduce((total, payment) => total + payment.amount, 0);
+  const lastPayDate = account.pendingDividends.reduce((latest, payment) => payment.payDate > latest ? payment.payDate : latest, date);
+  let settled = payDividends(account, lastPayDate);
+
+  Object.entries(account.portfolio).forEach(([stockId, shares]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock) return;
+    sales[stockId] = { shares, price: stock.price };
+    settled = sellShares(settled, stock, shares, date, undefined, 'settlement');
+  });
+
+  const covers: FinalSettlement['covers'] = {};
+  Object.entries(account.shorts).forEach(([stockId, short]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock) return;
+    covers[stockId] = { shares: -short.shares, price: stock.price };
+    settled = coverShares(settled, stock, -short.shares, date, undefined, 'settlement');
+  });
+
+  const options = getOptionsValue(account);
+  settled = { ...settled, cash: settled.cash + options, portfolio: {}, shorts: {}, options: {}, ipoRequests: {}, orders: [], marginCall: undefined };
+
+  return {
+    account: settled,
+    settlement: {
+      date,
+      sales,
+      covers,
+      options,
+      dividends,
+      cash: settled.cash,
+    },
+  };
+};
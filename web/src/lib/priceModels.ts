@@ -0,0 +1,235 @@
+import { Stock, MarketState, SimulationSettings } from './stockMarketSimulation';
+import { Random } from './random';
+import { getSectorReturn } from './sectorFactors';
+
+// Price-process models for individual stocks. Each model turns the previous price
+// and the market state for the step into the next closing price.
+
+export type PriceModelId = 'legacy' | 'gbm' | 'jump-diffusion';
+
+export interface PriceModelContext {
+  stock: Stock;
+  market: MarketState;
+  settings: SimulationSettings;
+  random: Random;
+  sessions: number;
+}
+
+export interface PriceModel {
+  id: PriceModelId;
+  name: string;
+  nextPrice: (context: PriceModelContext) => number;
+  // Annualized volatility the model moves the stock with outside a crash
+  annualVolatility: (stock: Stock, settings: SimulationSettings) => number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+// Half-width of the classic model's uniform noise per step
+const LEGACY_NOISE = 0.05;
+// Jumps outside a crash: how many a year, and how big
+const CALM_JUMP_INTENSITY = 2;
+const CALM_JUMP_VOLATILITY = 0.08;
+// Bars a stock's realized volatility is measured over, and the fewest it needs
+const REALIZED_VOLATILITY_BARS = 20;
+const MIN_REALIZED_VOLATILITY_BARS = 10;
+
+// Sessions one step of the simulation covers: one in intraday mode, `timeScale` otherwise
+export const getSessionsPerStep = (settings: SimulationSettings): number => {
+  return (settings.intradayTicks || 0) > 1 ? 1 : settings.timeScale;
+};
+
+export const getVolatilityFactor = (volatility: Stock['volatility']): number => {
+  switch (volatility) {
+    case 'low': return 0.5;
+    case 'medium': return 1.0;
+    case 'high': return 2.0;
+    case 'extreme': return 3.5;
+    default: return 1.0;
+  }
+};
+
+export const getSurvivalFactor = (survivalChance: Stock['survivalChance']): number => {
+  switch (survivalChance) {
+    case 'very low': return 0.2;
+    case 'low': return 0.4;
+    case 'medium': return 0.6;
+    case 'high': return 0.8;
+    case 'very high': return 0.95;
+    default: return 0.5;
+  }
+};
+
+// Annualized volatility for the `volatility` enum, roughly in line with era internet stocks
+export const getAnnualVolatility = (volatility: Stock['volatility']): number => {
+  switch (volatility) {
+    case 'low': return 0.35;
+    case 'medium': return 0.6;
+    case 'high': return 0.9;
+    case 'extreme': return 1.3;
+    default: return 0.6;
+  }
+};
+
+// Annualized drift on top of the market move; weak companies lag as the bubble deflates
+const getAnnualDrift = (stock: Stock, market: MarketState): number => {
+  const survivalFactor = getSurvivalFactor(stock.survivalChance);
+
+  switch (market.bubbleStage) {
+    case 'early': return 0.1;
+    case 'growth': return 0.2;
+    case 'mania': return 0.3;
+    case 'peak': return 0;
+    case 'decline': return -0.8 * (1 - survivalFactor);
+    case 'crash': return -2.0 * (1 - survivalFactor) * market.crashSeverity;
+    case 'bottom': return -0.2 * (1 - survivalFactor);
+    case 'recovery': return 0.15 * survivalFactor;
+    default: return 0;
+  }
+};
+
+// Log return of the market index over the step that was just simulated
+const getIndexLogReturn = (market: MarketState): number => {
+  const history = market.marketIndexHistory;
+  if (history.length < 2) return 0;
+  return Math.log(history[history.length - 1].price / history[history.length - 2].price);
+};
+
+// Speculative names move more than the index
+const getMarketBeta = (stock: Stock): number => {
+  return 0.6 + 0.4 * getVolatilityFactor(stock.volatility);
+};
+
+const getDiffusionVolatility = (stock: Stock, settings: SimulationSettings): number => {
+  return getAnnualVolatility(stock.volatility) * settings.volatilityFactor;
+};
+
+const diffusionLogReturn = ({ stock, market, settings, random, sessions }: PriceModelContext): number => {
+  const dt = sessions / TRADING_DAYS_PER_YEAR;
+  const sigma = getDiffusionVolatility(stock, settings);
+  const mu = getAnnualDrift(stock, market);
+
+  return (mu - (sigma * sigma) / 2) * dt
+    + sigma * Math.sqrt(dt) * random.normal()
+    + getMarketBeta(stock) * getIndexLogReturn(market)
+    + getSectorReturn(stock, market);
+};
+
+// Knuth's algorithm; intensities per step are small so this stays cheap
+const samplePoisson = (lambda: number, random: Random): number => {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random.next();
+  while (product > limit) {
+    count++;
+    product *= random.next();
+  }
+  return count;
+};
+
+// The original hand-tuned model: uniform noise, a pull towards the index's total
+// return, the stock's sector move and a soft ceiling at one and a half times the
+// company's peak price
+const legacyModel: PriceModel = {
+  id: 'legacy',
+  name: 'Classic',
+  nextPrice: ({ stock, market, settings, random }) => {
+    const volatilityFactor = getVolatilityFactor(stock.volatility);
+    const survivalFactor = getSurvivalFactor(stock.survivalChance);
+    const marketInfluence = market.bubbleStage === 'crash' ? 0.7 : 0.4;
+
+    let baseChange = random.float(-LEGACY_NOISE, LEGACY_NOISE) * volatilityFactor * settings.volatilityFactor;
+
+    const marketChange = ((market.marketIndex / market.marketIndexHistory[0].price) - 1) * marketInfluence;
+    baseChange += marketChange * random.float(0.5, 1.5);
+
+    baseChange += Math.exp(getSectorReturn(stock, market)) - 1;
+
+    if (market.bubbleStage === 'crash') {
+      const crashImpact = (1 - survivalFactor) * random.float(0.01, 0.1) * market.crashSeverity;
+      baseChange -= crashImpact;
+
+      if (stock.survivalChance === 'very low' && random.next() < 0.05 * market.crashSeverity) {
+        baseChange = -0.5;
+      }
+    }
+
+    let newPrice = stock.price * (1 + baseChange);
+
+    if (market.bubbleStage !== 'crash' && newPrice > stock.peakPrice * 1.5) {
+      newPrice = stock.peakPrice * (1 + random.float(0, 0.5));
+    }
+
+    return newPrice;
+  },
+  // The uniform noise has a standard deviation of its half-width over root three each
+  // step, however many sessions the step covers
+  annualVolatility: (stock, settings) => {
+    const stepVolatility = LEGACY_NOISE / Math.sqrt(3) * getVolatilityFactor(stock.volatility) * settings.volatilityFactor;
+    return stepVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR / getSessionsPerStep(settings));
+  },
+};
+
+const gbmModel: PriceModel = {
+  id: 'gbm',
+  name: 'Geometric Brownian Motion',
+  nextPrice: (context) => {
+    return context.stock.price * Math.exp(diffusionLogReturn(context));
+  },
+  annualVolatility: getDiffusionVolatility,
+};
+
+// Merton jump diffusion: GBM plus rare jumps. Jumps get more frequent and more
+// negative once the crash starts, hitting the companies least likely to survive hardest.
+const jumpDiffusionModel: PriceModel = {
+  id: 'jump-diffusion',
+  name: 'Jump Diffusion',
+  nextPrice: (context) => {
+    const { stock, market, random, sessions } = context;
+    const survivalFactor = getSurvivalFactor(stock.survivalChance);
+    const inCrash = market.bubbleStage === 'crash';
+
+    const annualIntensity = inCrash ? 4 + 20 * (1 - survivalFactor) * market.crashSeverity : CALM_JUMP_INTENSITY;
+    const jumpMean = inCrash ? -0.35 * (1 - survivalFactor) - 0.05 : 0;
+    const jumpVolatility = inCrash ? 0.15 : CALM_JUMP_VOLATILITY;
+
+    const jumps = samplePoisson((annualIntensity * sessions) / TRADING_DAYS_PER_YEAR, random);
+    let jumpReturn = 0;
+    for (let i = 0; i < jumps; i++) {
+      jumpReturn += jumpMean + jumpVolatility * random.normal();
+    }
+
+    return stock.price * Math.exp(diffusionLogReturn(context) + jumpReturn);
+  },
+  // Jumps add their variance on top of the diffusion's
+  annualVolatility: (stock, settings) => {
+    const sigma = getDiffusionVolatility(stock, settings);
+    return Math.sqrt(sigma * sigma + CALM_JUMP_INTENSITY * CALM_JUMP_VOLATILITY * CALM_JUMP_VOLATILITY);
+  },
+};
+
+export const priceModels: PriceModel[] = [legacyModel, gbmModel, jumpDiffusionModel];
+
+export const getPriceModel = (id?: PriceModelId): PriceModel => {
+  return priceModels.find(model => model.id === id) || legacyModel;
+};
+
+// Annualized volatility of the stock's recent closes, or undefined without enough history.
+// Bars are spaced by date, so steps of any length annualize the same way.
+export const getRealizedVolatility = (stock: Stock): number | undefined => {
+  const bars = stock.priceHistory.slice(-(REALIZED_VOLATILITY_BARS + 1));
+  if (bars.length < MIN_REALIZED_VOLATILITY_BARS + 1) return undefined;
+
+  const years = (Date.parse(bars[bars.length - 1].date) - Date.parse(bars[0].date)) / (1000 * 60 * 60 * 24 * 365);
+  if (years <= 0) return undefined;
+
+  const variance = bars.slice(1).reduce((total, bar, i) => total + Math.pow(Math.log(bar.price / bars[i].price), 2), 0);
+  return Math.sqrt(variance / years);
+};
+
+// Annualized volatility the simulation moves the stock with: the price model's at the
+// game's volatility setting, or in historical replay, where stocks follow their real
+// series, what the stock has actually been doing lately
+export const getEffectiveVolatility = (stock: Stock, settings: SimulationSettings): number => {
+  const realized = settings.marketMode === 'historical' ? getRealizedVolatility(stock) : undefined;
+  return realized ?? getPriceModel(settings.priceModel).annualVolatility(stock, settings);
+};
@@ -0,0 +1,52 @@
+// Seedable pseudo-random number generator (mulberry32).
+// The whole generator state is a single 32-bit integer, so a simulation can be
+// replayed from its seed or resumed from a saved state.
+
+export interface Random {
+  next: () => number;
+  float: (min: number, max: number) => number;
+  int: (min: number, max: number) => number;
+  normal: () => number;
+  getState: () => number;
+}
+
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+export const createRandom = (state: number): Random => {
+  let current = state >>> 0;
+
+  const next = (): number => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  // Uniform float in [min, max)
+  const float = (min: number, max: number): number => {
+    return next() * (max - min) + min;
+  };
+
+  // Uniform integer in [min, max], both ends inclusive
+  const int = (min: number, max: number): number => {
+    return Math.floor(next() * (max - min + 1)) + min;
+  };
+
+  // Standard normal draw (Box-Muller)
+  const normal = (): number => {
+    const u1 = Math.max(next(), Number.EPSILON);
+    const u2 = next();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  };
+
+  return {
+    next,
+    float,
+    int,
+    normal,
+    getState: () => current,
+  };
+};
@@ -1,5 +1,8 @@
 import supabase from '../lib/supabase';
 import { Stock, MarketState, SimulationSettings } from './stockMarketSimulation';
+import { PlayerAccount } from './playerAccount';
+import { Valuation, GameResult } from './objectives';
+import { CrashEvents, IntradaySession } from './marketEngine';
 
 export interface SavedGame {
   id?: string;
@@ -9,9 +12,22 @@ export interface SavedGame {
   updated_at?: string;
   market_state: MarketState;
   stocks: Stock[];
+  // Copied out of `account` so the list of saves can show them
   portfolio: {[key: string]: number};
   cash: number;
   settings: SimulationSettings;
+  // Everything the player holds and owes: shorts, options, open orders, margin, IPO
+  // requests, dividends, trades and tax lots. Saves from before it was kept only have
+  // `portfolio` and `cash`.
+  account?: PlayerAccount;
+  // Scoring history, and the verdict once the game is over
+  valuations?: Valuation[];
+  result?: GameResult | null;
+  // Where the random generator and the crash timeline stood, and the intraday session in
+  // progress, so a loaded game carries on with the same draws as the one that was saved
+  rng_state?: number;
+  crash_events?: CrashEvents;
+  session?: IntradaySession | null;
 }
 
 export const saveGameProgress = async (
@@ -19,9 +35,13 @@ export const saveGameProgress = async (
   gameName: string,
   marketState: MarketState,
   stocks: Stock[],
-  portfolio: {[key: string]: number},
-  cash: number,
-  settings: SimulationSettings
+  account: PlayerAccount,
+  settings: SimulationSettings,
+  valuations: Valuation[],
+  gameResult: GameResult | null,
+  rngState: number,
+  crashEvents: CrashEvents,
+  session: IntradaySession | null
 ): Promise<string | null> => {
   try {
     const gameData: SavedGame = {
@@ -29,9 +49,15 @@ export const saveGameProgress = async (
       game_name: gameName,
       market_state: marketState,
       stocks: stocks,
-      portfolio: portfolio,
-      cash: cash,
+      portfolio: account.portfolio,
+      cash: account.cash,
       settings: settings,
+      account: account,
+      valuations: valuations,
+      result: gameResult,
+      rng_state: rngState,
+      crash_events: crashEvents,
+      session: session,
       updated_at: new Date().toISOString()
     };
 
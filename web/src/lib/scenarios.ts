@@ -0,0 +1,206 @@
+import { MarketState, NewsItem } from './stockMarketSimulation';
+import dotcomBubble from '../data/scenarios/dotcom-bubble.json';
+
+// Scenarios describe the market's story as data: the stages it moves through and when,
+// how the index and sentiment behave in each, when the crash can come, how the market
+// comes back from it, when the game ends and what the papers say along the way. The
+// engine runs whichever scenario the simulation was created with; the dotcom bubble
+// below is the game's original timeline.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface ScenarioStage {
+  stage: BubbleStage;
+  // First date past the stage, or 'crash' to last until the crash date. The crash stage
+  // itself only starts when the crash is triggered.
+  until?: string;
+  // Marks a stage that follows the crash: it begins this many days after the crash
+  // started, and no earlier than `from`. The latest one reached wins.
+  afterCrash?: number;
+  from?: string;
+  volatility: number;
+  // Sentiment and per-step index change are drawn uniformly from these ranges
+  sentiment: [number, number];
+  indexChange: [number, number];
+  // Scales the downside of `indexChange` by the crash severity
+  severityScaled?: boolean;
+}
+
+export interface ScenarioCrash {
+  // Crash date when the crash isn't randomized, and the month used when the settings
+  // pin the crash to `year`
+  year: number;
+  month: number;
+  day: number;
+  // Years a randomized crash can land in
+  randomYears: [number, number];
+  // How many months ahead of the crash the warning comes
+  warningMonths: [number, number];
+  // Chance of a crash once warned, growing each step past the crash date, and the
+  // share of it that triggers per step
+  warningProbability: number;
+  probabilityStep: number;
+  maxProbability: number;
+  triggerRate: number;
+  // Severity starts here on the crash date and reaches 1 after `severityRampDays`
+  initialSeverity: number;
+  severityRampDays: number;
+  // A step that drops the index by `indexDrop` in the crash can end the game
+  gameOver: { fromYear: number; indexDrop: number; chance: number };
+}
+
+export interface ScenarioNews {
+  id: string;
+  // Published on the crash warning or the crash, or else on `date`
+  trigger?: 'warning' | 'crash';
+  date?: string;
+  headline: string;
+  content: string;
+  impact: NewsItem['impact'];
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  startingIndex: number;
+  stages: ScenarioStage[];
+  crash: ScenarioCrash;
+  news: ScenarioNews[];
+  // Last day of the game unless the settings end it sooner
+  endDate?: string;
+}
+
+const BUBBLE_STAGES: BubbleStage[] = ['early', 'growth', 'mania', 'peak', 'decline', 'crash', 'bottom', 'recovery'];
+
+const NEWS_IMPACTS: NewsItem['impact'][] = ['positive', 'negative', 'neutral'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isRange = (value: unknown): boolean => {
+  return Array.isArray(value) && value.length === 2 && value.every(item => typeof item === 'number') && value[0] <= value[1];
+};
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean'): boolean => {
+  return value === undefined || typeof value === type;
+};
+
+// What's wrong with one stage of a scenario file, or null if nothing is
+const validateStage = (stage: unknown): string | null => {
+  if (!isObject(stage)) return 'Every stage must be an object';
+  if (!BUBBLE_STAGES.some(known => known === stage.stage)) return `Unknown stage "${stage.stage}"`;
+  if (typeof stage.volatility !== 'number') return `Stage "${stage.stage}" needs a volatility`;
+  if (!isRange(stage.sentiment) || !isRange(stage.indexChange)) {
+    return `Stage "${stage.stage}" needs sentiment and indexChange ranges`;
+  }
+  if (!isOptional(stage.until, 'string')) return `Stage "${stage.stage}" until must be a date or "crash"`;
+  if (!isOptional(stage.afterCrash, 'number')) return `Stage "${stage.stage}" afterCrash must be a number of days`;
+  if (!isOptional(stage.from, 'string')) return `Stage "${stage.stage}" from must be a date`;
+  if (!isOptional(stage.severityScaled, 'boolean')) return `Stage "${stage.stage}" severityScaled must be true or false`;
+  return null;
+};
+
+// What's wrong with one scripted headline, or null if nothing is
+const validateNews = (item: unknown): string | null => {
+  if (!isObject(item)) return 'Every news item must be an object';
+  const name = typeof item.id === 'string' && item.id ? item.id : item.headline;
+  if (!item.id || typeof item.id !== 'string' || !item.headline || typeof item.headline !== 'string' || (!item.trigger && typeof item.date !== 'string')) {
+    return `News "${name}" needs an id, a headline and a trigger or date`;
+  }
+  if (item.trigger !== undefined && item.trigger !== 'warning' && item.trigger !== 'crash') return `News "${name}" trigger must be "warning" or "crash"`;
+  if (typeof item.content !== 'string') return `News "${name}" needs content`;
+  if (!NEWS_IMPACTS.some(impact => impact === item.impact)) return `News "${name}" impact must be positive, negative or neutral`;
+  return null;
+};
+
+// Returns what's wrong with a scenario file, or null if it can be run. The file comes
+// from the player, so every field the engine reads is checked before it's trusted.
+export const validateScenario = (data: unknown): string | null => {
+  if (!isObject(data)) return 'Scenario must be a JSON object';
+  if (typeof data.id !== 'string' || typeof data.name !== 'string') return 'Scenario needs an id and a name';
+  if (typeof data.startingIndex !== 'number' || data.startingIndex <= 0) return 'startingIndex must be a positive number';
+  if (!Array.isArray(data.stages) || data.stages.length === 0) return 'Scenario needs at least one stage';
+
+  const stages: unknown[] = data.stages;
+  for (const stage of stages) {
+    const problem = validateStage(stage);
+    if (problem) return problem;
+  }
+  if (!stages.some(stage => isObject(stage) && stage.stage === 'crash')) return 'Scenario needs a crash stage';
+
+  const crash = data.crash;
+  if (!isObject(crash)) return 'Scenario needs a crash section';
+  const numbers = ['year', 'month', 'day', 'warningProbability', 'probabilityStep', 'maxProbability', 'triggerRate', 'initialSeverity', 'severityRampDays'];
+  const missing = numbers.find(key => typeof crash[key] !== 'number');
+  if (missing) return `crash.${missing} must be a number`;
+  if (!isRange(crash.randomYears) || !isRange(crash.warningMonths)) return 'crash.randomYears and crash.warningMonths must be ranges';
+  const gameOver = crash.gameOver;
+  if (!isObject(gameOver) || ['fromYear', 'indexDrop', 'chance'].some(key => typeof gameOver[key] !== 'number')) {
+    return 'crash.gameOver needs fromYear, indexDrop and chance';
+  }
+  if (!isOptional(data.endDate, 'string')) return 'endDate must be a date';
+
+  if (!Array.isArray(data.news)) return 'news must be a list';
+  const news: unknown[] = data.news;
+  for (const item of news) {
+    const problem = validateNews(item);
+    if (problem) return problem;
+  }
+
+  return null;
+};
+
+export const defaultScenario = dotcomBubble as Scenario;
+
+// Scenarios bundled with the game
+export const scenarios: Scenario[] = [defaultScenario];
+
+export const getScenario = (id?: string): Scenario => {
+  return scenarios.find(scenario => scenario.id === id) || defaultScenario;
+};
+
+// The stage the calendar calls for on `date`, or undefined once past every scheduled
+// stage, in which case the market carries on as it was until the crash arrives
+export const getScheduledStage = (scenario: Scenario, date: string, crashDate?: string): ScenarioStage | undefined => {
+  return scenario.stages.find(stage => {
+    if (stage.stage === 'crash' || stage.afterCrash !== undefined) return false;
+    if (stage.until === 'crash') return !crashDate || date < crashDate;
+    return !stage.until || date < stage.until;
+  });
+};
+
+export const getCrashStage = (scenario: Scenario): ScenarioStage => {
+  return scenario.stages.find(stage => stage.stage === 'crash')!;
+};
+
+// The stage the market is in on `date` after crashing on `crashStartDate`: the crash
+// itself until the first post-crash stage is due
+export const getPostCrashStage = (scenario: Scenario, date: string, crashStartDate: string): ScenarioStage => {
+  const daysSinceCrash = (new Date(date).getTime() - new Date(crashStartDate).getTime()) / (1000 * 60 * 60 * 24);
+  const reached = scenario.stages.filter(stage =>
+    stage.afterCrash !== undefined && daysSinceCrash >= stage.afterCrash && (!stage.from || date >= stage.from)
+  );
+  return reached[reached.length - 1] || getCrashStage(scenario);
+};
+
+// Scripted headlines for a trigger, or dated within the step from `previousDate` to `date`
+export const getScenarioNews = (
+  scenario: Scenario,
+  date: string,
+  trigger?: ScenarioNews['trigger'],
+  previousDate?: string
+): NewsItem[] => {
+  return scenario.news
+    .filter(item => trigger
+      ? item.trigger === trigger
+      : !item.trigger && item.date !== undefined && previousDate !== undefined && item.date > previousDate && item.date <= date)
+    .map(item => ({
+      id: `${item.id}-${date}`,
+      date,
+      headline: item.headline,
+      content: item.content,
+      impact: item.impact,
+    }));
+};
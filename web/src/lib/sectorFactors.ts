@@ -0,0 +1,121 @@
+import { MarketState, NewsItem, Stock, SimulationSettings } from './stockMarketSimulation';
+import { Random } from './random';
+
+// Sector factor model keyed off Stock.category. Every sector has a latent factor
+// that mixes a common "tech" factor with its own noise; how much of the common factor
+// leaks into each sector depends on the bubble stage, so sectors trade together in
+// the mania and the crash but rotate against each other in between.
+
+type BubbleStage = MarketState['bubbleStage'];
+
+export interface SectorProfile {
+  // How speculative the sector is, from 0 (real earnings) to 1 (pure hype)
+  speculation: number;
+  // Daily volatility of the sector factor
+  volatility: number;
+  // Sensitivity of member stocks to their sector factor
+  loading: number;
+}
+
+export const OTHER_SECTOR = 'Other';
+
+export const SECTOR_PROFILES: { [sector: string]: SectorProfile } = {
+  'E-commerce': { speculation: 1.0, volatility: 0.025, loading: 1.2 },
+  'Delivery': { speculation: 1.0, volatility: 0.03, loading: 1.2 },
+  'Fintech': { speculation: 0.9, volatility: 0.03, loading: 1.1 },
+  'Social Media': { speculation: 0.9, volatility: 0.03, loading: 1.1 },
+  'Health': { speculation: 0.8, volatility: 0.025, loading: 1.0 },
+  'Advertising': { speculation: 0.8, volatility: 0.025, loading: 1.0 },
+  'B2B': { speculation: 0.8, volatility: 0.03, loading: 1.1 },
+  'Media': { speculation: 0.7, volatility: 0.02, loading: 1.0 },
+  'Information Services': { speculation: 0.7, volatility: 0.025, loading: 1.0 },
+  'Internet Services': { speculation: 0.6, volatility: 0.02, loading: 1.0 },
+  'Search': { speculation: 0.6, volatility: 0.022, loading: 1.0 },
+  'Networking': { speculation: 0.3, volatility: 0.018, loading: 0.9 },
+  'Enterprise Software': { speculation: 0.2, volatility: 0.015, loading: 0.8 },
+  [OTHER_SECTOR]: { speculation: 0.5, volatility: 0.02, loading: 1.0 },
+};
+
+// Correlation of each sector factor with the common factor
+const STAGE_CORRELATION: { [stage in BubbleStage]: number } = {
+  early: 0.3,
+  growth: 0.4,
+  mania: 0.65,
+  peak: 0.5,
+  decline: 0.6,
+  crash: 0.85,
+  bottom: 0.6,
+  recovery: 0.45,
+};
+
+// Daily drift for a fully speculative sector; sectors with real earnings get the
+// `quality` drift instead, which is what lets them hold up while the hype names sell off
+const STAGE_DRIFT: { [stage in BubbleStage]: { speculative: number; quality: number } } = {
+  early: { speculative: 0.001, quality: 0.0005 },
+  growth: { speculative: 0.002, quality: 0.001 },
+  mania: { speculative: 0.004, quality: 0.0015 },
+  peak: { speculative: 0, quality: 0.0005 },
+  decline: { speculative: -0.004, quality: 0 },
+  crash: { speculative: -0.008, quality: -0.001 },
+  bottom: { speculative: -0.001, quality: 0.0003 },
+  recovery: { speculative: 0.0012, quality: 0.0008 },
+};
+
+// Chance per session that a single sector takes an outsized hit or rally
+const SECTOR_SHOCK_PROBABILITY = 0.01;
+
+export const getSectorProfile = (category: string): SectorProfile => {
+  return SECTOR_PROFILES[category] || SECTOR_PROFILES[OTHER_SECTOR];
+};
+
+export const getSectorReturn = (stock: Stock, market: MarketState): number => {
+  const returns = market.sectorReturns;
+  if (!returns) return 0;
+
+  const sectorReturn = returns[stock.category] ?? returns[OTHER_SECTOR] ?? 0;
+  return getSectorProfile(stock.category).loading * sectorReturn;
+};
+
+// Draws one log return per sector for a step of `sessions` trading days
+export const simulateSectorReturns = (
+  market: MarketState,
+  settings: SimulationSettings,
+  random: Random,
+  sessions: number
+): { returns: { [sector: string]: number }; news: NewsItem[] } => {
+  const correlation = STAGE_CORRELATION[market.bubbleStage];
+  const drift = STAGE_DRIFT[market.bubbleStage];
+  const scale = Math.sqrt(sessions) * settings.volatilityFactor;
+  const common = random.normal();
+
+  const returns: { [sector: string]: number } = {};
+  const news: NewsItem[] = [];
+
+  Object.entries(SECTOR_PROFILES).forEach(([sector, profile]) => {
+    const shock = correlation * common + Math.sqrt(1 - correlation * correlation) * random.normal();
+    const sectorDrift = profile.speculation * drift.speculative + (1 - profile.speculation) * drift.quality;
+    const sectorReturn = sectorDrift * sessions + profile.volatility * scale * shock;
+
+    if (sector !== OTHER_SECTOR && random.next() < SECTOR_SHOCK_PROBABILITY * sessions) {
+      // Speculative sectors are more likely to be hit than lifted once the bubble deflates
+      const downside = market.bubbleStage === 'decline' || market.bubbleStage === 'crash' || market.bubbleStage === 'bottom' ? 0.8 : 0.4;
+      const isSelloff = random.next() < downside;
+
+      // The move itself comes from the news pipeline
+      news.push({
+        id: `sector-${sector.toLowerCase().replace(/[^a-z0-9]/g, '')}-${market.currentDate}`,
+        date: market.currentDate,
+        headline: isSelloff ? `${sector} Stocks Hammered in Sector-Wide Selloff` : `${sector} Names Rally as Investors Pile In`,
+        content: isSelloff
+          ? `Investors dumped ${sector.toLowerCase()} stocks across the board today, dragging down even the sector's strongest names.`
+          : `A wave of buying swept through ${sector.toLowerCase()} stocks today, lifting leaders and laggards alike.`,
+        impact: isSelloff ? 'negative' : 'positive',
+        sector,
+      });
+    }
+
+    returns[sector] = sectorReturn;
+  });
+
+  return { returns, news };
+};
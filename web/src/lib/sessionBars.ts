@@ -0,0 +1,76 @@
+import { Stock, PricePoint, IntradayTick } from './stockMarketSimulation';
+import { Random } from './random';
+import { getMarketHours } from './tradingCalendar';
+import { getVolatilityFactor } from './priceModels';
+
+// Points sampled per session when the simulation runs in daily mode; only used for highs and lows
+export const DAILY_SESSION_TICKS = 8;
+
+// Typical shares traded per session before scaling for price moves and sentiment
+export const getBaseVolume = (stock: Stock): number => {
+  return 250000 * getVolatilityFactor(stock.volatility);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part));
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  return `${hours.toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+// Evenly spaced times from the opening bell to the close, both included
+export const getSessionTimes = (date: string, ticks: number): string[] => {
+  const { open, close } = getMarketHours(date);
+  const start = toMinutes(open);
+  const end = toMinutes(close);
+
+  if (ticks <= 1) return [close];
+
+  return Array.from({ length: ticks }, (_, i) => toTime(Math.round(start + (i * (end - start)) / (ticks - 1))));
+};
+
+// Brownian bridge in log-price from the previous close to this session's close. The first
+// tick is the open, so overnight gaps show up between the previous close and the open.
+export const buildSessionTicks = (
+  date: string,
+  previousClose: number,
+  close: number,
+  ticks: number,
+  volatility: number,
+  random: Random
+): IntradayTick[] => {
+  const times = getSessionTimes(date, ticks);
+  const steps = times.length;
+  const drift = Math.log(close / previousClose);
+  const stepVolatility = volatility / Math.sqrt(steps);
+
+  const walk = [0];
+  for (let i = 1; i <= steps; i++) {
+    walk.push(walk[i - 1] + random.normal() * stepVolatility);
+  }
+
+  return times.map((time, i) => {
+    const t = (i + 1) / steps;
+    const bridge = walk[i + 1] - t * walk[steps];
+    return {
+      time,
+      price: i === steps - 1 ? close : previousClose * Math.exp(drift * t + bridge),
+    };
+  });
+};
+
+export const toPriceBar = (date: string, ticks: IntradayTick[], volume?: number): PricePoint => {
+  const prices = ticks.map(tick => tick.price);
+
+  return {
+    date,
+    price: prices[prices.length - 1],
+    open: prices[0],
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    volume,
+  };
+};
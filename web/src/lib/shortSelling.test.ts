@@ -0,0 +1,51 @@
+import { canOpenShort, chargeBorrowFees, enforceShortCollateral, getCollateral } from './shortSelling';
+import { createAccount, buyShares, shortShares } from './playerAccount';
+import { MarginSettings } from './margin';
+import { createRandom } from './random';
+import { addTradingDays } from './tradingCalendar';
+import { createTestStock, createTestMarket, TEST_DATE as date } from './testFixtures';
+
+const margin: MarginSettings = { initial: 0.5, maintenance: 0.25, interestRate: 0.085, graceSessions: 3 };
+const long = createTestStock('Oracle', { price: 100 });
+const short = createTestStock('Cisco', { price: 50 });
+const stocks = [long, short];
+const market = createTestMarket(addTradingDays(date, 1));
+
+test('on margin the longs back the shorts, so a debit balance is no collateral shortfall', () => {
+  // $15,000 of stock bought with $10,000, then $2,000 of another stock shorted
+  const bought = buyShares(createAccount(), long, 150, date, undefined, 20000);
+  const account = shortShares(bought, short, 40, date);
+  expect(account.cash).toBeCloseTo(-3000);
+
+  // Equity of $10,000 plus the $2,000 owed on the short, less 25% of the longs
+  expect(getCollateral(account, stocks, margin)).toBeCloseTo(8250);
+  expect(getCollateral(account, stocks)).toBeCloseTo(-3000);
+
+  const kept = enforceShortCollateral(account, stocks, market, createRandom(1), 1, margin);
+  expect(kept.account).toBe(account);
+  const boughtIn = enforceShortCollateral(account, stocks, market, createRandom(1), 1);
+  expect(boughtIn.account.shorts).toEqual({});
+
+  expect(canOpenShort(account, stocks, short, 40, market, margin)).toBe(true);
+  expect(canOpenShort(account, stocks, short, 40, market)).toBe(false);
+  // Opening holds the longs to the initial requirement
+  expect(canOpenShort(account, stocks, short, 200, market, margin)).toBe(false);
+});
+
+test('a halted stock is neither shorted, bought in nor charged to borrow', () => {
+  const account = shortShares(createAccount(), short, 40, date);
+  const stretched = { ...account, cash: 0 };
+  const halt = { date: market.currentDate, time: '12:00', reason: 'news' as const };
+  const halted = [long, { ...short, tradingHalt: halt }];
+
+  expect(canOpenShort(createAccount(), halted, halted[1], 40, market)).toBe(false);
+  expect(enforceShortCollateral(stretched, halted, market, createRandom(1), 1).account).toBe(stretched);
+  expect(chargeBorrowFees(account, halted, market, 5)).toEqual(account);
+
+  // A circuit breaker stops them all
+  const breaker = { ...market, circuitBreaker: { date: market.currentDate, time: '12:00', level: 1, decline: 0.1 } };
+  expect(enforceShortCollateral(stretched, stocks, breaker, createRandom(1), 1).account).toBe(stretched);
+
+  // Once the stock trades again the broker buys it in
+  expect(enforceShortCollateral(stretched, halted, createTestMarket(addTradingDays(date, 2)), createRandom(1), 1).account.shorts).toEqual({});
+});
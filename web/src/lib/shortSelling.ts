@@ -0,0 +1,147 @@
+import { Stock, MarketState, NewsItem } from './stockMarketSimulation';
+import { PlayerAccount, coverShares, getNetWorth } from './playerAccount';
+import { getFillPrice } from './liquidity';
+import { MarginSettings, getLongValue } from './margin';
+import { getVolatilityFactor } from './priceModels';
+import { getTradingHaltReason } from './tradingHalts';
+import { Random } from './random';
+
+// Short selling. Shorts borrow their shares from the broker, who charges a fee on their
+// value every session and wants collateral: Reg T style, the collateral in the account
+// has to cover 150% of the shorts' value to open one, and 130% to keep them. Below that
+// the broker buys shorts back, biggest first, until it's satisfied. In a cash account
+// the collateral is the cash; on margin it's the account's equity less what the margin
+// requirement keeps against the longs (see `getCollateral`). Stocks that are scarce
+// to borrow (wild ones, and ones that have collapsed) cost far more, and the lender can
+// recall the shares at any time, forcing a buy-in. None of this touches a stock while it
+// is halted: it can't be shorted or bought back, and no fee accrues on it.
+
+const INITIAL_COLLATERAL = 1.5;
+const MAINTENANCE_COLLATERAL = 1.3;
+// Annual borrow rates: general collateral, and the premium on hard-to-borrow names
+const BASE_BORROW_RATE = 0.005;
+const HARD_TO_BORROW_PREMIUM = 0.25;
+// A stock this far below its peak, or under this price, is hard to borrow
+const COLLAPSE_FRACTION = 0.2;
+const PENNY_PRICE = 5;
+// Chance per session that the lender recalls a hard-to-borrow stock
+const RECALL_CHANCE = 0.02;
+const SESSIONS_PER_YEAR = 252;
+
+export const isHardToBorrow = (stock: Stock): boolean => {
+  return stock.volatility === 'extreme' || stock.price < PENNY_PRICE || stock.price < stock.peakPrice * COLLAPSE_FRACTION;
+};
+
+// Annual fee as a fraction of the borrowed shares' value
+export const getBorrowRate = (stock: Stock): number => {
+  return BASE_BORROW_RATE * getVolatilityFactor(stock.volatility) + (isHardToBorrow(stock) ? HARD_TO_BORROW_PREMIUM : 0);
+};
+
+// What it would cost to buy back every short at the last price
+export const getShortValue = (account: PlayerAccount, stocks: Stock[]): number => {
+  return Object.entries(account.shorts).reduce((total, [stockId, short]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    return total + (stock ? stock.price * -short.shares : 0);
+  }, 0);
+};
+
+// The short proceeds plus whatever else backs the shorts. A margin account's longs count
+// for what the broker lends against them, so a debit balance from buying on margin isn't
+// a collateral shortfall as long as the longs cover it. Opening a short holds the longs
+// to the initial requirement, keeping one to the maintenance requirement.
+export const getCollateral = (account: PlayerAccount, stocks: Stock[], margin?: MarginSettings, opening = false): number => {
+  if (!margin) return account.cash;
+  const requirement = opening ? margin.initial : margin.maintenance;
+  return getNetWorth(account, stocks) + getShortValue(account, stocks) - requirement * getLongValue(account, stocks);
+};
+
+// Whether the stock is trading and the account has the collateral to short `shares` more
+export const canOpenShort = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  stock: Stock,
+  shares: number,
+  market: MarketState,
+  margin?: MarginSettings
+): boolean => {
+  if (getTradingHaltReason(market, stock)) return false;
+  const proceeds = getFillPrice(stock, 'sell', shares).price * shares;
+  const shortValue = getShortValue(account, stocks) + stock.price * shares;
+  return getCollateral(account, stocks, margin, true) + proceeds >= INITIAL_COLLATERAL * shortValue;
+};
+
+export const getRequiredCollateral = (account: PlayerAccount, stocks: Stock[]): number => {
+  return MAINTENANCE_COLLATERAL * getShortValue(account, stocks);
+};
+
+// Charges `sessions` days of borrow fees on every trading short to the account's cash
+export const chargeBorrowFees = (account: PlayerAccount, stocks: Stock[], market: MarketState, sessions: number): PlayerAccount => {
+  const entries = Object.entries(account.shorts);
+  if (entries.length === 0) return account;
+
+  let fees = 0;
+  const shorts = { ...account.shorts };
+  entries.forEach(([stockId, short]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock || getTradingHaltReason(market, stock)) return;
+    const fee = stock.price * -short.shares * getBorrowRate(stock) * sessions / SESSIONS_PER_YEAR;
+    shorts[stockId] = { ...short, carryingCosts: short.carryingCosts + fee };
+    fees += fee;
+  });
+
+  return { ...account, cash: account.cash - fees, shorts };
+};
+
+const createBuyInNews = (stock: Stock, date: string, shares: number, reason: 'recall' | 'collateral'): NewsItem => ({
+  id: `buy-in-${stock.id}-${date}`,
+  date,
+  headline: reason === 'recall'
+    ? `Lender Recalls ${stock.symbol} Shares, Forcing a Buy-In`
+    : `Broker Buys In ${stock.symbol} Short on Collateral Shortfall`,
+  content: reason === 'recall'
+    ? `The shares you borrowed to short ${stock.name} were recalled. Your broker bought back all ${shares} at the close.`
+    : `Your account no longer held enough collateral against its short positions, so your broker bought back ${shares} ${stock.symbol} shares at the close.`,
+  impact: 'neutral',
+  stockId: stock.id,
+});
+
+// Runs at the close of each step, once prices are final: recalls first, then buy-ins
+// until the collateral covers what's left. Halted stocks can't be bought back.
+export const enforceShortCollateral = (
+  account: PlayerAccount,
+  stocks: Stock[],
+  market: MarketState,
+  random: Random,
+  sessions: number,
+  margin?: MarginSettings
+): { account: PlayerAccount; news: NewsItem[] } => {
+  if (Object.keys(account.shorts).length === 0) return { account, news: [] };
+
+  const date = market.currentDate;
+  const news: NewsItem[] = [];
+  const recallChance = 1 - Math.pow(1 - RECALL_CHANCE, sessions);
+  const buyIn = (current: PlayerAccount, stock: Stock, reason: 'recall' | 'collateral'): PlayerAccount => {
+    const shares = -current.shorts[stock.id].shares;
+    news.push(createBuyInNews(stock, date, shares, reason));
+    return coverShares(current, stock, shares, date, covered => getFillPrice(stock, 'buy', covered), 'buy-in');
+  };
+
+  let current = Object.keys(account.shorts).reduce((updated, stockId) => {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock || getTradingHaltReason(market, stock) || !isHardToBorrow(stock) || random.next() >= recallChance) return updated;
+    return buyIn(updated, stock, 'recall');
+  }, account);
+
+  const coverable = () => Object.entries(current.shorts)
+    .map(([stockId, short]) => ({ stock: stocks.find(s => s.id === stockId), short }))
+    .filter((entry): entry is { stock: Stock; short: typeof entry.short } => entry.stock !== undefined && !getTradingHaltReason(market, entry.stock))
+    .sort((a, b) => b.stock.price * -b.short.shares - a.stock.price * -a.short.shares);
+
+  let candidates = coverable();
+  while (candidates.length > 0 && getCollateral(current, stocks, margin) < getRequiredCollateral(current, stocks)) {
+    current = buyIn(current, candidates[0].stock, 'collateral');
+    candidates = coverable();
+  }
+
+  return { account: current, news };
+};
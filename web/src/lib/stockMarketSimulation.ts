@@ -1,4 +1,40 @@
 import { useState, useEffect } from 'react';
+import { generateSeed } from './random';
+import { PriceModelId } from './priceModels';
+import { MarketMode } from './historicalMarket';
+import { Scenario, defaultScenario, getScenario } from './scenarios';
+import { StockStatus } from './companyLifecycle';
+import { Trade } from './playerAccount';
+import { StockSplit } from './stockSplits';
+import { DividendPolicy } from './dividends';
+import { MergerDeal, ScheduledAcquisition } from './mergers';
+import { Fundamentals } from './fundamentals';
+import { NewsShock } from './newsImpact';
+import { Objective } from './objectives';
+import { CircuitBreakerHalt, TradingHalt } from './tradingHalts';
+import { OrderRequest } from './orders';
+import { OptionContract, OptionDelivery } from './options';
+import { LotMethod } from './taxLots';
+import { MarginSettings } from './margin';
+import {
+  createSimulationState,
+  stepSimulation,
+  finishSession,
+  buyStock as buyStockInSimulation,
+  sellStock as sellStockInSimulation,
+  shortStock as shortStockInSimulation,
+  coverStock as coverStockInSimulation,
+  buyOption as buyOptionInSimulation,
+  sellOption as sellOptionInSimulation,
+  setLotMethod as setLotMethodInSimulation,
+  requestIpoAllocation as requestIpoAllocationInSimulation,
+  placeOrder as placeOrderInSimulation,
+  cancelOrder as cancelOrderInSimulation,
+  getTradeRejection,
+  restoreSimulationState,
+  SimulationState,
+  SavedSimulation,
+} from './marketEngine';
 
 export interface Stock {
   id: string;
@@ -13,11 +49,41 @@ export interface Stock {
   survivalChance: 'very low' | 'low' | 'medium' | 'high' | 'very high';
   priceHistory: PricePoint[];
   news: NewsItem[];
+  sessionTicks?: IntradayTick[];
+  status?: StockStatus;
+  statusDate?: string;
+  sessionsBelowDollar?: number;
+  // First trading session; companies without one trade from the start of the game
+  listingDate?: string;
+  // Splits already applied to the (back-adjusted) prices, and ones still to come
+  splits?: StockSplit[];
+  splitSchedule?: StockSplit[];
+  dividendPolicy?: DividendPolicy;
+  // A takeover scripted in the company data, announced once its date arrives
+  acquisition?: ScheduledAcquisition;
+  // Latest quarterly numbers, updated each earnings season
+  fundamentals?: Fundamentals;
+  // Ratio of the game's price to the company's real price series in historical replay
+  historicalScale?: number;
+  // Exchange halt called on the stock during the latest session
+  tradingHalt?: TradingHalt;
 }
 
+// One bar per simulation step; `price` is the close
 export interface PricePoint {
   date: string;
   price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  // Cash dividend the stock went ex on in this bar
+  dividend?: number;
+}
+
+export interface IntradayTick {
+  time: string;
+  price: number;
 }
 
 export interface NewsItem {
@@ -27,28 +93,57 @@ export interface NewsItem {
   content: string;
   impact: 'positive' | 'negative' | 'neutral';
   stockId?: string;
+  // Sector story that moves every company in the category
+  sector?: string;
 }
 
 export interface MarketState {
   currentDate: string;
+  currentTime: string;
   marketIndex: number;
   marketIndexHistory: PricePoint[];
-  bubbleStage: 'early' | 'growth' | 'mania' | 'peak' | 'decline' | 'crash';
+  sessionTicks?: IntradayTick[];
+  // Log return of each sector factor over the latest step
+  sectorReturns?: {[sector: string]: number};
+  bubbleStage: 'early' | 'growth' | 'mania' | 'peak' | 'decline' | 'crash' | 'bottom' | 'recovery';
   volatility: number;
   sentiment: number;
   news: NewsItem[];
   crashWarningShown: boolean;
   crashProbability: number;
   crashSeverity: number;
+  // Date the crash was triggered; the market works through the post-crash stages from here
+  crashStartDate?: string;
+  // Market-wide halt called during the latest session
+  circuitBreaker?: CircuitBreakerHalt;
+  // Announced takeovers that haven't closed or broken yet
+  deals?: MergerDeal[];
+  // News still being priced in
+  newsShocks?: NewsShock[];
 }
 
 export interface SimulationSettings {
   startYear: number;
   startMonth: number;
   crashYear?: number;
+  // The game ends after the last session of this year, or on the scenario's end date
+  endYear?: number;
   volatilityFactor: number;
+  // Trading sessions per simulation step
   timeScale: number;
   crashRandomness: number;
+  seed?: number;
+  // Ticks per session in intraday mode; 0 or undefined steps a whole session at a time
+  intradayTicks?: number;
+  priceModel?: PriceModelId;
+  // Synthetic by default; 'historical' replays the real Nasdaq
+  marketMode?: MarketMode;
+  // Scenario the synthetic market follows; the dotcom bubble if unset
+  scenarioId?: string;
+  // What the player has to achieve; beating the index if unset
+  objectives?: Objective[];
+  // Borrowing terms for a margin account; a plain cash account if unset
+  margin?: MarginSettings;
 }
 
 // Default simulation settings
@@ -60,332 +155,112 @@ const defaultSettings: SimulationSettings = {
   crashRandomness: 0.7,
 };
 
-// Helper functions for simulation
-const formatDate = (year: number, month: number, day: number): string => {
-  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-};
-
-const addDays = (dateString: string, days: number): string => {
-  const date = new Date(dateString);
-  date.setDate(date.getDate() + days);
-  return date.toISOString().split('T')[0];
-};
-
-const getRandomFloat = (min: number, max: number): number => {
-  return Math.random() * (max - min) + min;
-};
-
-const getVolatilityFactor = (volatility: Stock['volatility']): number => {
-  switch (volatility) {
-    case 'low': return 0.5;
-    case 'medium': return 1.0;
-    case 'high': return 2.0;
-    case 'extreme': return 3.5;
-    default: return 1.0;
-  }
-};
-
-const getSurvivalFactor = (survivalChance: Stock['survivalChance']): number => {
-  switch (survivalChance) {
-    case 'very low': return 0.2;
-    case 'low': return 0.4;
-    case 'medium': return 0.6;
-    case 'high': return 0.8;
-    case 'very high': return 0.95;
-    default: return 0.5;
-  }
-};
-
 // Main simulation hook
 export const useStockMarketSimulation = (
   initialStocks: Stock[],
-  settings: SimulationSettings = defaultSettings
+  settings: SimulationSettings = defaultSettings,
+  scenario: Scenario = defaultScenario
 ) => {
-  const [stocks, setStocks] = useState<Stock[]>([]);
-  const [market, setMarket] = useState<MarketState>({
-    currentDate: formatDate(settings.startYear, settings.startMonth, 1),
-    marketIndex: 1000,
-    marketIndexHistory: [
-      {
-        date: formatDate(settings.startYear, settings.startMonth, 1),
-        price: 1000,
-      },
-    ],
-    bubbleStage: 'early',
-    volatility: 0.2,
-    sentiment: 0.6,
-    news: [],
-    crashWarningShown: false,
-    crashProbability: 0,
-    crashSeverity: 0.5,
-  });
+  const [seed, setSeed] = useState<number>(0);
+  // What the game in progress runs on, seed included. Edits to `settings` wait for the
+  // next reset, so a game never changes rules halfway through.
+  const [gameSettings, setGameSettings] = useState<SimulationSettings>(settings);
+  const [simulation, setSimulation] = useState<SimulationState>(() => createSimulationState([], settings, 0));
   const [isRunning, setIsRunning] = useState(false);
   const [simulationSpeed, setSimulationSpeed] = useState(3000);
-  const [gameOver, setGameOver] = useState(false);
-  const [crashEvents, setCrashEvents] = useState<{
-    warningDate: string | null;
-    crashDate: string | null;
-    peakIndex: number;
-  }>({
-    warningDate: null,
-    crashDate: null,
-    peakIndex: 0,
-  });
+  // Why the last order was turned away, until the next order or step
+  const [tradeRejection, setTradeRejection] = useState<string | null>(null);
+  // The last order's fill, until the next order or step
+  const [tradeConfirmation, setTradeConfirmation] = useState<Trade | null>(null);
+
+  const { stocks, market, gameOver, crashEvents, rngState, session, account, ipoCalendar, settlement, valuations, result } = simulation;
+
+  // Every random draw in the engine comes from the seed, so a run can be replayed exactly
+  const startSimulation = (settings: SimulationSettings) => {
+    const nextSeed = settings.seed ?? generateSeed();
+    setSeed(nextSeed);
+    setGameSettings({ ...settings, seed: nextSeed });
+    setSimulation(createSimulationState(initialStocks, settings, nextSeed, undefined, scenario));
+  };
 
+  // Settings changes take effect on the next reset (see `gameSettings`), so a loaded game
+  // isn't wiped out
   useEffect(() => {
     if (initialStocks.length > 0) {
-      const startDate = formatDate(settings.startYear, settings.startMonth, 1);
-      
-      const initializedStocks = initialStocks.map(stock => ({
-        ...stock,
-        id: stock.name.toLowerCase().replace(/[^a-z0-9]/g, ''),
-        symbol: generateStockSymbol(stock.name),
-        price: stock.initialPrice,
-        priceHistory: [
-          {
-            date: startDate,
-            price: stock.initialPrice,
-          },
-        ],
-        news: [],
-      }));
-      
-      setStocks(initializedStocks);
-      
-      determineCrashTiming(settings);
+      startSimulation(settings);
     }
-  }, [initialStocks, settings]);
+  }, [initialStocks]);
 
-  const generateStockSymbol = (name: string): string => {
-    const symbol = name
-      .split(/\s+/)
-      .map(word => word[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 5);
-    
-    if (symbol.length < 3) {
-      const consonants = name
-        .toUpperCase()
-        .replace(/[AEIOU\s]/g, '')
-        .slice(0, 5 - symbol.length);
-      return (symbol + consonants).slice(0, 5);
-    }
-    
-    return symbol;
+  // Restores a saved game on top of a fresh run from its settings and seed
+  const restoreSimulation = (savedSettings: SimulationSettings, saved: SavedSimulation) => {
+    const nextSeed = savedSettings.seed ?? generateSeed();
+    // A scenario loaded from a file only exists here, so reuse it if the save ran it
+    const savedScenario = savedSettings.scenarioId === scenario.id ? scenario : getScenario(savedSettings.scenarioId);
+    setIsRunning(false);
+    setSeed(nextSeed);
+    setGameSettings({ ...savedSettings, seed: nextSeed });
+    setSimulation(restoreSimulationState(initialStocks, savedSettings, nextSeed, saved, savedScenario));
   };
 
-  const determineCrashTiming = (settings: SimulationSettings) => {
-    let crashYear = 2000;
-    let crashMonth = 3;
-    
-    if (settings.crashYear) {
-      crashYear = settings.crashYear;
-      crashMonth = crashYear === 2000 ? 3 : Math.floor(Math.random() * 12) + 1;
-    } else {
-      if (Math.random() < settings.crashRandomness) {
-        crashYear = Math.floor(Math.random() * 3) + 2002;
-        crashMonth = Math.floor(Math.random() * 12) + 1;
-      }
-    }
-    
-    const warningMonthsAhead = Math.floor(Math.random() * 3) + 1;
-    let warningYear = crashYear;
-    let warningMonth = crashMonth - warningMonthsAhead;
-    
-    if (warningMonth <= 0) {
-      warningYear--;
-      warningMonth += 12;
-    }
-    
-    setCrashEvents({
-      warningDate: formatDate(warningYear, warningMonth, 15),
-      crashDate: formatDate(crashYear, crashMonth, 15),
-      peakIndex: 0,
+  // The banner is worked out from the same transition the state is set from, so a step
+  // landing between the click and the update can't make it describe a different fill.
+  // Setting it from the updater is safe to repeat: the same `prev` gives the same result.
+  const submitMarketOrder = (stockId: string, order: (state: SimulationState) => SimulationState) => {
+    setSimulation(prev => {
+      const next = order(prev);
+      const filled = next.account.trades;
+      setTradeRejection(getTradeRejection(prev, stockId));
+      setTradeConfirmation(filled.length > prev.account.trades.length ? filled[filled.length - 1] : null);
+      return next;
     });
   };
 
+  const buyStock = (stockId: string, shares: number) => {
+    submitMarketOrder(stockId, state => buyStockInSimulation(state, stockId, shares, gameSettings.margin));
+  };
+
+  const sellStock = (stockId: string, shares: number, lotIds?: number[]) => {
+    submitMarketOrder(stockId, state => sellStockInSimulation(state, stockId, shares, lotIds));
+  };
+
+  const setLotMethod = (method: LotMethod) => {
+    setSimulation(prev => setLotMethodInSimulation(prev, method));
+  };
+
+  const shortStock = (stockId: string, shares: number) => {
+    submitMarketOrder(stockId, state => shortStockInSimulation(state, stockId, shares, gameSettings.margin));
+  };
+
+  const coverShort = (stockId: string, shares: number) => {
+    submitMarketOrder(stockId, state => coverStockInSimulation(state, stockId, shares));
+  };
+
+  const buyOption = (contract: OptionContract, contracts: number, delivery: OptionDelivery) => {
+    submitMarketOrder(contract.stockId, state => buyOptionInSimulation(state, contract, contracts, delivery, gameSettings));
+  };
+
+  const sellOption = (contractId: string, contracts: number) => {
+    const position = account.options[contractId];
+    if (!position) return;
+    submitMarketOrder(position.contract.stockId, state => sellOptionInSimulation(state, contractId, contracts, gameSettings));
+  };
+
+  const placeOrder = (request: OrderRequest) => {
+    setSimulation(prev => placeOrderInSimulation(prev, request));
+  };
+
+  const cancelOrder = (orderId: number) => {
+    setSimulation(prev => cancelOrderInSimulation(prev, orderId));
+  };
+
+  const requestIpoAllocation = (stockId: string, shares: number) => {
+    setSimulation(prev => requestIpoAllocationInSimulation(prev, stockId, shares));
+  };
+
   const advanceSimulation = () => {
-    if (gameOver) return;
-    
-    setMarket(prevMarket => {
-      const newDate = addDays(prevMarket.currentDate, settings.timeScale);
-      const currentYear = parseInt(newDate.split('-')[0]);
-      const currentMonth = parseInt(newDate.split('-')[1]);
-      
-      let newBubbleStage = prevMarket.bubbleStage;
-      let newVolatility = prevMarket.volatility;
-      let newSentiment = prevMarket.sentiment;
-      let newCrashProbability = prevMarket.crashProbability;
-      let newCrashWarningShown = prevMarket.crashWarningShown;
-      let newCrashSeverity = prevMarket.crashSeverity;
-      
-      if (crashEvents.warningDate && newDate >= crashEvents.warningDate && !newCrashWarningShown) {
-        newCrashWarningShown = true;
-        newCrashProbability = 0.3;
-        
-        const warningNews: NewsItem = {
-          id: `crash-warning-${Date.now()}`,
-          date: newDate,
-          headline: "Analysts Warn of Potential Tech Bubble",
-          content: "Several prominent Wall Street analysts have raised concerns about the sustainability of current tech stock valuations. They point to excessive speculation, particularly in internet stocks with little or no earnings. Some are drawing comparisons to previous market bubbles.",
-          impact: 'negative'
-        };
-        
-        prevMarket.news.unshift(warningNews);
-      }
-      
-      if (crashEvents.crashDate && newDate >= crashEvents.crashDate) {
-        newCrashProbability = Math.min(newCrashProbability + 0.1, 0.95);
-        
-        const daysPastCrashDate = (new Date(newDate).getTime() - new Date(crashEvents.crashDate).getTime()) / (1000 * 60 * 60 * 24);
-        newCrashSeverity = Math.min(0.5 + (daysPastCrashDate / 30) * 0.5, 1.0);
-      }
-      
-      if (newCrashProbability > 0 && Math.random() < newCrashProbability * 0.1) {
-        newBubbleStage = 'crash';
-        newVolatility = 1.0;
-        newSentiment = 0.1 + getRandomFloat(0, 0.1);
-        
-        const crashNews: NewsItem = {
-          id: `crash-event-${Date.now()}`,
-          date: newDate,
-          headline: "MARKET CRASH: Tech Stocks in Free Fall as Bubble Bursts",
-          content: "The tech-heavy market index is experiencing its worst decline in history as the dotcom bubble finally bursts. Internet stocks are leading the selloff, with many losing more than half their value in a matter of days. Panic selling has gripped the market as investors flee what many are now calling vastly overvalued assets.",
-          impact: 'negative'
-        };
-        
-        prevMarket.news.unshift(crashNews);
-        
-        if (crashEvents.peakIndex === 0) {
-          setCrashEvents(prev => ({
-            ...prev,
-            peakIndex: prevMarket.marketIndex
-          }));
-        }
-      } 
-      
-      if (newBubbleStage !== 'crash') {
-        if (currentYear < 1999) {
-          newBubbleStage = 'early';
-          newVolatility = 0.2;
-          newSentiment = 0.6 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 1999 && currentMonth < 6) {
-          newBubbleStage = 'growth';
-          newVolatility = 0.3;
-          newSentiment = 0.7 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 1999 && currentMonth >= 6) {
-          newBubbleStage = 'mania';
-          newVolatility = 0.5;
-          newSentiment = 0.85 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 2000 && currentMonth < 3) {
-          newBubbleStage = 'peak';
-          newVolatility = 0.7;
-          newSentiment = 0.9 + getRandomFloat(-0.2, 0.1);
-        } else if (newDate < crashEvents.crashDate!) {
-          newBubbleStage = 'decline';
-          newVolatility = 0.8;
-          newSentiment = 0.5 + getRandomFloat(-0.3, 0.1);
-        }
-      }
-      
-      let indexChange = 0;
-      
-      switch (newBubbleStage) {
-        case 'early':
-          indexChange = getRandomFloat(-0.01, 0.03) * settings.volatilityFactor;
-          break;
-        case 'growth':
-          indexChange = getRandomFloat(-0.01, 0.05) * settings.volatilityFactor;
-          break;
-        case 'mania':
-          indexChange = getRandomFloat(-0.02, 0.08) * settings.volatilityFactor;
-          break;
-        case 'peak':
-          indexChange = getRandomFloat(-0.05, 0.05) * settings.volatilityFactor;
-          break;
-        case 'decline':
-          indexChange = getRandomFloat(-0.08, 0.02) * settings.volatilityFactor;
-          break;
-        case 'crash':
-          indexChange = getRandomFloat(-0.15 * newCrashSeverity, 0.01) * settings.volatilityFactor;
-          break;
-      }
-      
-      const newMarketIndex = Math.max(100, prevMarket.marketIndex * (1 + indexChange));
-      
-      if (newBubbleStage === 'crash' && 
-          newMarketIndex < prevMarket.marketIndex * 0.7 && 
-          currentYear >= 2002 && 
-          Math.random() > 0.95) {
-        setGameOver(true);
-      }
-      
-      return {
-        ...prevMarket,
-        currentDate: newDate,
-        marketIndex: newMarketIndex,
-        marketIndexHistory: [
-          ...prevMarket.marketIndexHistory,
-          {
-            date: newDate,
-            price: newMarketIndex,
-          },
-        ],
-        bubbleStage: newBubbleStage,
-        volatility: newVolatility,
-        sentiment: newSentiment,
-        crashWarningShown: newCrashWarningShown,
-        crashProbability: newCrashProbability,
-        crashSeverity: newCrashSeverity,
-      };
-    });
-    
-    setStocks(prevStocks => {
-      return prevStocks.map(stock => {
-        const volatilityFactor = getVolatilityFactor(stock.volatility);
-        const survivalFactor = getSurvivalFactor(stock.survivalChance);
-        const marketInfluence = market.bubbleStage === 'crash' ? 0.7 : 0.4;
-        
-        let baseChange = getRandomFloat(-0.05, 0.05) * volatilityFactor * settings.volatilityFactor;
-        
-        const marketChange = ((market.marketIndex / market.marketIndexHistory[0].price) - 1) * marketInfluence;
-        baseChange += marketChange * getRandomFloat(0.5, 1.5);
-        
-        if (market.bubbleStage === 'mania' && stock.category === 'E-commerce') {
-          baseChange += getRandomFloat(0, 0.05);
-        }
-        
-        if (market.bubbleStage === 'crash') {
-          const crashImpact = (1 - survivalFactor) * getRandomFloat(0.01, 0.1) * market.crashSeverity;
-          baseChange -= crashImpact;
-          
-          if (stock.survivalChance === 'very low' && Math.random() < 0.05 * market.crashSeverity) {
-            baseChange = -0.5;
-          }
-        }
-        
-        let newPrice = stock.price * (1 + baseChange);
-        
-        newPrice = Math.max(0.1, newPrice);
-        
-        if (market.bubbleStage !== 'crash' && newPrice > stock.peakPrice * 1.5) {
-          newPrice = stock.peakPrice * (1 + getRandomFloat(0, 0.5));
-        }
-        
-        return {
-          ...stock,
-          price: newPrice,
-          priceHistory: [
-            ...stock.priceHistory,
-            {
-              date: market.currentDate,
-              price: newPrice,
-            },
-          ],
-        };
-      });
-    });
+    setTradeRejection(null);
+    setTradeConfirmation(null);
+    setSimulation(prev => stepSimulation(prev, gameSettings));
   };
 
   const toggleSimulation = () => {
@@ -404,186 +279,9 @@ export const useStockMarketSimulation = (
   }, [isRunning, simulationSpeed, gameOver]);
 
   const advanceToNextDay = () => {
-    if (gameOver) return;
-    
-    setMarket(prevMarket => {
-      const newDate = addDays(prevMarket.currentDate, 1);
-      const currentYear = parseInt(newDate.split('-')[0]);
-      const currentMonth = parseInt(newDate.split('-')[1]);
-      
-      let newBubbleStage = prevMarket.bubbleStage;
-      let newVolatility = prevMarket.volatility;
-      let newSentiment = prevMarket.sentiment;
-      let newCrashProbability = prevMarket.crashProbability;
-      let newCrashWarningShown = prevMarket.crashWarningShown;
-      let newCrashSeverity = prevMarket.crashSeverity;
-      
-      if (crashEvents.warningDate && newDate >= crashEvents.warningDate && !newCrashWarningShown) {
-        newCrashWarningShown = true;
-        newCrashProbability = 0.3;
-        
-        const warningNews: NewsItem = {
-          id: `crash-warning-${Date.now()}`,
-          date: newDate,
-          headline: "Analysts Warn of Potential Tech Bubble",
-          content: "Several prominent Wall Street analysts have raised concerns about the sustainability of current tech stock valuations. They point to excessive speculation, particularly in internet stocks with little or no earnings. Some are drawing comparisons to previous market bubbles.",
-          impact: 'negative'
-        };
-        
-        prevMarket.news.unshift(warningNews);
-      }
-      
-      if (crashEvents.crashDate && newDate >= crashEvents.crashDate) {
-        newCrashProbability = Math.min(newCrashProbability + 0.1, 0.95);
-        
-        const daysPastCrashDate = (new Date(newDate).getTime() - new Date(crashEvents.crashDate).getTime()) / (1000 * 60 * 60 * 24);
-        newCrashSeverity = Math.min(0.5 + (daysPastCrashDate / 30) * 0.5, 1.0);
-      }
-      
-      if (newCrashProbability > 0 && Math.random() < newCrashProbability * 0.1) {
-        newBubbleStage = 'crash';
-        newVolatility = 1.0;
-        newSentiment = 0.1 + getRandomFloat(0, 0.1);
-        
-        const crashNews: NewsItem = {
-          id: `crash-event-${Date.now()}`,
-          date: newDate,
-          headline: "MARKET CRASH: Tech Stocks in Free Fall as Bubble Bursts",
-          content: "The tech-heavy market index is experiencing its worst decline in history as the dotcom bubble finally bursts. Internet stocks are leading the selloff, with many losing more than half their value in a matter of days. Panic selling has gripped the market as investors flee what many are now calling vastly overvalued assets.",
-          impact: 'negative'
-        };
-        
-        prevMarket.news.unshift(crashNews);
-        
-        if (crashEvents.peakIndex === 0) {
-          setCrashEvents(prev => ({
-            ...prev,
-            peakIndex: prevMarket.marketIndex
-          }));
-        }
-      } 
-      
-      if (newBubbleStage !== 'crash') {
-        if (currentYear < 1999) {
-          newBubbleStage = 'early';
-          newVolatility = 0.2;
-          newSentiment = 0.6 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 1999 && currentMonth < 6) {
-          newBubbleStage = 'growth';
-          newVolatility = 0.3;
-          newSentiment = 0.7 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 1999 && currentMonth >= 6) {
-          newBubbleStage = 'mania';
-          newVolatility = 0.5;
-          newSentiment = 0.85 + getRandomFloat(-0.1, 0.1);
-        } else if (currentYear === 2000 && currentMonth < 3) {
-          newBubbleStage = 'peak';
-          newVolatility = 0.7;
-          newSentiment = 0.9 + getRandomFloat(-0.2, 0.1);
-        } else if (newDate < crashEvents.crashDate!) {
-          newBubbleStage = 'decline';
-          newVolatility = 0.8;
-          newSentiment = 0.5 + getRandomFloat(-0.3, 0.1);
-        }
-      }
-      
-      let indexChange = 0;
-      
-      switch (newBubbleStage) {
-        case 'early':
-          indexChange = getRandomFloat(-0.01, 0.03) * settings.volatilityFactor;
-          break;
-        case 'growth':
-          indexChange = getRandomFloat(-0.01, 0.05) * settings.volatilityFactor;
-          break;
-        case 'mania':
-          indexChange = getRandomFloat(-0.02, 0.08) * settings.volatilityFactor;
-          break;
-        case 'peak':
-          indexChange = getRandomFloat(-0.05, 0.05) * settings.volatilityFactor;
-          break;
-        case 'decline':
-          indexChange = getRandomFloat(-0.08, 0.02) * settings.volatilityFactor;
-          break;
-        case 'crash':
-          indexChange = getRandomFloat(-0.15 * newCrashSeverity, 0.01) * settings.volatilityFactor;
-          break;
-      }
-      
-      const newMarketIndex = Math.max(100, prevMarket.marketIndex * (1 + indexChange));
-      
-      if (newBubbleStage === 'crash' && 
-          newMarketIndex < prevMarket.marketIndex * 0.7 && 
-          currentYear >= 2002 && 
-          Math.random() > 0.95) {
-        setGameOver(true);
-      }
-      
-      return {
-        ...prevMarket,
-        currentDate: newDate,
-        marketIndex: newMarketIndex,
-        marketIndexHistory: [
-          ...prevMarket.marketIndexHistory,
-          {
-            date: newDate,
-            price: newMarketIndex,
-          },
-        ],
-        bubbleStage: newBubbleStage,
-        volatility: newVolatility,
-        sentiment: newSentiment,
-        crashWarningShown: newCrashWarningShown,
-        crashProbability: newCrashProbability,
-        crashSeverity: newCrashSeverity,
-      };
-    });
-    
-    setStocks(prevStocks => {
-      return prevStocks.map(stock => {
-        const volatilityFactor = getVolatilityFactor(stock.volatility);
-        const survivalFactor = getSurvivalFactor(stock.survivalChance);
-        const marketInfluence = market.bubbleStage === 'crash' ? 0.7 : 0.4;
-        
-        let baseChange = getRandomFloat(-0.05, 0.05) * volatilityFactor * settings.volatilityFactor;
-        
-        const marketChange = ((market.marketIndex / market.marketIndexHistory[0].price) - 1) * marketInfluence;
-        baseChange += marketChange * getRandomFloat(0.5, 1.5);
-        
-        if (market.bubbleStage === 'mania' && stock.category === 'E-commerce') {
-          baseChange += getRandomFloat(0, 0.05);
-        }
-        
-        if (market.bubbleStage === 'crash') {
-          const crashImpact = (1 - survivalFactor) * getRandomFloat(0.01, 0.1) * market.crashSeverity;
-          baseChange -= crashImpact;
-          
-          if (stock.survivalChance === 'very low' && Math.random() < 0.05 * market.crashSeverity) {
-            baseChange = -0.5;
-          }
-        }
-        
-        let newPrice = stock.price * (1 + baseChange);
-        
-        newPrice = Math.max(0.1, newPrice);
-        
-        if (market.bubbleStage !== 'crash' && newPrice > stock.peakPrice * 1.5) {
-          newPrice = stock.peakPrice * (1 + getRandomFloat(0, 0.5));
-        }
-        
-        return {
-          ...stock,
-          price: newPrice,
-          priceHistory: [
-            ...stock.priceHistory,
-            {
-              date: market.currentDate,
-              price: newPrice,
-            },
-          ],
-        };
-      });
-    });
+    setTradeRejection(null);
+    setTradeConfirmation(null);
+    setSimulation(prev => finishSession(prev, gameSettings));
   };
 
   const setSpeed = (speed: number) => {
@@ -591,44 +289,8 @@ export const useStockMarketSimulation = (
   };
 
   const resetSimulation = () => {
-    const startDate = formatDate(settings.startYear, settings.startMonth, 1);
-    
-    setMarket({
-      currentDate: startDate,
-      marketIndex: 1000,
-      marketIndexHistory: [
-        {
-          date: startDate,
-          price: 1000,
-        },
-      ],
-      bubbleStage: 'early',
-      volatility: 0.2,
-      sentiment: 0.6,
-      news: [],
-      crashWarningShown: false,
-      crashProbability: 0,
-      crashSeverity: 0.5,
-    });
-    
-    setStocks(initialStocks.map(stock => ({
-      ...stock,
-      id: stock.name.toLowerCase().replace(/[^a-z0-9]/g, ''),
-      symbol: generateStockSymbol(stock.name),
-      price: stock.initialPrice,
-      priceHistory: [
-        {
-          date: startDate,
-          price: stock.initialPrice,
-        },
-      ],
-      news: [],
-    })));
-    
-    setGameOver(false);
     setIsRunning(false);
-    
-    determineCrashTiming(settings);
+    startSimulation(settings);
   };
 
   return {
@@ -642,6 +304,38 @@ export const useStockMarketSimulation = (
     advanceSimulation,
     advanceToNextDay,
     resetSimulation,
+    restoreSimulation,
     crashEvents,
+    seed,
+    gameSettings,
+    rngState,
+    session,
+    account,
+    portfolio: account.portfolio,
+    shorts: account.shorts,
+    marginCall: account.marginCall,
+    marginInterest: account.marginInterest,
+    cash: account.cash,
+    buyStock,
+    sellStock,
+    shortStock,
+    coverShort,
+    options: account.options,
+    buyOption,
+    sellOption,
+    ipoCalendar,
+    ipoRequests: account.ipoRequests,
+    requestIpoAllocation,
+    orders: account.orders,
+    placeOrder,
+    cancelOrder,
+    settlement,
+    trades: account.trades,
+    ledger: account.ledger,
+    setLotMethod,
+    valuations,
+    result,
+    tradeRejection,
+    tradeConfirmation,
   };
 };
@@ -0,0 +1,101 @@
+import { Stock, NewsItem, PricePoint } from './stockMarketSimulation';
+import { isTradable } from './companyLifecycle';
+import { addTradingDays } from './tradingCalendar';
+
+// Stock splits. Boards split their shares once the price climbs out of the range retail
+// investors like to buy in, and some splits are scheduled in the company data. Past
+// prices are back-adjusted so charts and the price models see one continuous series.
+
+export interface StockSplit {
+  date: string;
+  // New shares per old share
+  ratio: number;
+}
+
+export interface SplitEvent {
+  stockId: string;
+  ratio: number;
+}
+
+// Closing prices that push a board into splitting
+const TWO_FOR_ONE_PRICE = 150;
+const THREE_FOR_ONE_PRICE = 300;
+// Boards rarely split more than a couple of times a year
+const SPLIT_COOLDOWN_SESSIONS = 63;
+// A scheduled split is called off if the shares have fallen below this by then
+const MIN_SCHEDULED_SPLIT_PRICE = 40;
+
+const getThresholdRatio = (stock: Stock, date: string): number => {
+  const lastSplit = stock.splits?.[stock.splits.length - 1];
+  if (lastSplit && addTradingDays(lastSplit.date, SPLIT_COOLDOWN_SESSIONS) > date) return 0;
+
+  if (stock.price >= THREE_FOR_ONE_PRICE) return 3;
+  if (stock.price >= TWO_FOR_ONE_PRICE) return 2;
+  return 0;
+};
+
+const adjustBar = (bar: PricePoint, ratio: number): PricePoint => ({
+  ...bar,
+  price: bar.price / ratio,
+  open: bar.open !== undefined ? bar.open / ratio : undefined,
+  high: bar.high !== undefined ? bar.high / ratio : undefined,
+  low: bar.low !== undefined ? bar.low / ratio : undefined,
+  volume: bar.volume !== undefined ? Math.round(bar.volume * ratio) : undefined,
+});
+
+const createSplitNews = (stock: Stock, date: string, ratio: number): NewsItem => ({
+  id: `split-${stock.id}-${date}`,
+  date,
+  headline: `${stock.name} Announces ${ratio}-for-1 Stock Split`,
+  content: `${stock.name} (${stock.symbol}) shareholders will receive ${ratio} shares for every share they own. Splits don't change what a holding is worth, but at around $${(stock.price / ratio).toFixed(2)} a share the stock is within reach of many more individual investors.`,
+  impact: 'positive',
+  stockId: stock.id,
+});
+
+// Divides every price the stock has ever had by `ratio`, so the series stays continuous
+export const applySplit = (stock: Stock, ratio: number, date: string): Stock => ({
+  ...stock,
+  price: stock.price / ratio,
+  initialPrice: stock.initialPrice / ratio,
+  peakPrice: stock.peakPrice / ratio,
+  dividendPolicy: stock.dividendPolicy && { ...stock.dividendPolicy, amount: stock.dividendPolicy.amount / ratio },
+  historicalScale: stock.historicalScale && stock.historicalScale / ratio,
+  priceHistory: stock.priceHistory.map(bar => adjustBar(bar, ratio)),
+  sessionTicks: stock.sessionTicks?.map(tick => ({ ...tick, price: tick.price / ratio })),
+  splits: [...(stock.splits || []), { date, ratio }],
+});
+
+// Runs after the step's prices are in: scheduled splits whose date has arrived go first,
+// then any stock that closed above a threshold splits
+export const updateSplits = (
+  stocks: Stock[],
+  date: string
+): { stocks: Stock[]; splits: SplitEvent[]; news: NewsItem[] } => {
+  const splits: SplitEvent[] = [];
+  const news: NewsItem[] = [];
+
+  const updatedStocks = stocks.map(stock => {
+    if (!isTradable(stock)) return stock;
+
+    const schedule = stock.splitSchedule || [];
+    const due = schedule.find(split => split.date <= date);
+    const remaining = due ? schedule.filter(split => split !== due) : schedule;
+
+    let ratio = getThresholdRatio(stock, date);
+    if (!ratio && due && stock.price >= MIN_SCHEDULED_SPLIT_PRICE) {
+      ratio = due.ratio;
+    }
+
+    const current = due ? { ...stock, splitSchedule: remaining } : stock;
+    if (!ratio) return current;
+
+    const item = createSplitNews(stock, date, ratio);
+    news.push(item);
+    splits.push({ stockId: stock.id, ratio });
+
+    const split = applySplit(current, ratio, date);
+    return { ...split, news: [item, ...split.news] };
+  });
+
+  return { stocks: updatedStocks, splits, news };
+};
@@ -0,0 +1,186 @@
+import { Stock } from './stockMarketSimulation';
+
+// Tax lots. Every purchase of shares (a fill, an IPO allocation, a call delivered at its
+// strike) opens a lot at the price paid, and every sale closes shares out of the open
+// lots: the oldest first (FIFO), the newest first (LIFO), or lots the player picks
+// (specific identification, which falls back to FIFO for whatever the picks don't
+// cover). Each closed piece is kept as a realized gain, so cost basis, realized and
+// unrealized P&L all come from here. The broker charges no commissions, so the fill price
+// already carries everything a purchase cost, spread and market impact included.
+//
+// Corporate actions carry the basis through: splits divide it over more shares, stock
+// takeovers move the lots over to the acquirer, and cash takeovers and failures close
+// them at what they paid out. Short positions keep their own accounting (see
+// `ShortPosition`).
+
+export type LotMethod = 'fifo' | 'lifo' | 'specific';
+
+export interface TaxLot {
+  id: number;
+  // When the shares were bought; conversions and splits keep the original date
+  date: string;
+  shares: number;
+  // Cost per share
+  price: number;
+}
+
+export interface RealizedGain {
+  stockId: string;
+  lotId: number;
+  acquired: string;
+  sold: string;
+  shares: number;
+  cost: number;
+  proceeds: number;
+}
+
+export interface Ledger {
+  method: LotMethod;
+  // Open lots by stock, oldest first
+  lots: {[stockId: string]: TaxLot[]};
+  // Every piece of a lot closed so far, oldest first
+  realized: RealizedGain[];
+  nextLotId: number;
+}
+
+export const lotMethods: { id: LotMethod; name: string }[] = [
+  { id: 'fifo', name: 'First In, First Out' },
+  { id: 'lifo', name: 'Last In, First Out' },
+  { id: 'specific', name: 'Specific Lots' },
+];
+
+export const createLedger = (method: LotMethod = 'fifo'): Ledger => ({
+  method,
+  lots: {},
+  realized: [],
+  nextLotId: 1,
+});
+
+// Saves from before the ledger was kept only have share counts, so each holding opens a
+// single lot at the price it was saved at
+export const createOpeningLedger = (portfolio: {[stockId: string]: number}, stocks: Stock[], date: string): Ledger => {
+  return Object.entries(portfolio).reduce((ledger, [stockId, shares]) => {
+    const stock = stocks.find(s => s.id === stockId);
+    return openLot(ledger, stockId, date, shares, stock ? stock.price : 0);
+  }, createLedger());
+};
+
+export const setLotMethod = (ledger: Ledger, method: LotMethod): Ledger => ({ ...ledger, method });
+
+export const openLot = (ledger: Ledger, stockId: string, date: string, shares: number, price: number): Ledger => {
+  if (shares <= 0) return ledger;
+
+  return {
+    ...ledger,
+    lots: { ...ledger.lots, [stockId]: [...(ledger.lots[stockId] || []), { id: ledger.nextLotId, date, shares, price }] },
+    nextLotId: ledger.nextLotId + 1,
+  };
+};
+
+// Lots in the order a sale draws on them
+const orderLots = (lots: TaxLot[], method: LotMethod, lotIds: number[]): TaxLot[] => {
+  const picked = lotIds
+    .map(id => lots.find(lot => lot.id === id))
+    .filter((lot): lot is TaxLot => lot !== undefined);
+  const rest = lots.filter(lot => !picked.includes(lot));
+  return method === 'lifo' ? rest.reverse() : [...picked, ...rest];
+};
+
+// Closes `shares` out of the stock's lots at `price` each. Specific lots are only used
+// when the ledger's method is 'specific'.
+export const closeLots = (
+  ledger: Ledger,
+  stockId: string,
+  shares: number,
+  price: number,
+  date: string,
+  lotIds: number[] = []
+): Ledger => {
+  const lots = ledger.lots[stockId];
+  if (!lots || shares <= 0) return ledger;
+
+  const realized: RealizedGain[] = [];
+  const closed: {[lotId: number]: number} = {};
+  let remaining = shares;
+  orderLots(lots, ledger.method, ledger.method === 'specific' ? lotIds : []).forEach(lot => {
+    const taken = Math.min(remaining, lot.shares);
+    if (taken <= 0) return;
+    remaining -= taken;
+    closed[lot.id] = taken;
+    realized.push({ stockId, lotId: lot.id, acquired: lot.date, sold: date, shares: taken, cost: lot.price * taken, proceeds: price * taken });
+  });
+
+  const open = lots
+    .map(lot => closed[lot.id] ? { ...lot, shares: lot.shares - closed[lot.id] } : lot)
+    .filter(lot => lot.shares > 0);
+  const remainingLots = { ...ledger.lots };
+  if (open.length > 0) {
+    remainingLots[stockId] = open;
+  } else {
+    delete remainingLots[stockId];
+  }
+
+  return { ...ledger, lots: remainingLots, realized: [...ledger.realized, ...realized] };
+};
+
+// A split hands out `ratio` shares for each one held, so every lot's basis is spread over
+// `ratio` times the shares
+export const splitLots = (ledger: Ledger, stockId: string, ratio: number): Ledger => {
+  const lots = ledger.lots[stockId];
+  if (!lots) return ledger;
+
+  return {
+    ...ledger,
+    lots: { ...ledger.lots, [stockId]: lots.map(lot => ({ ...lot, shares: lot.shares * ratio, price: lot.price / ratio })) },
+  };
+};
+
+// A stock takeover swaps the target's lots for `exchangeRatio` acquirer shares each,
+// keeping their basis and dates. The fraction of a share paid out in cash is closed at
+// `acquirerPrice`.
+export const convertLots = (
+  ledger: Ledger,
+  targetId: string,
+  acquirerId: string,
+  exchangeRatio: number,
+  acquirerPrice: number,
+  date: string
+): Ledger => {
+  const lots = ledger.lots[targetId];
+  if (!lots) return ledger;
+
+  const converted = lots.map(lot => ({ ...lot, shares: lot.shares * exchangeRatio, price: lot.price / exchangeRatio }));
+  const newShares = converted.reduce((total, lot) => total + lot.shares, 0);
+  const remainingLots = { ...ledger.lots };
+  delete remainingLots[targetId];
+
+  // Cash in lieu comes out of the converted lots, not shares of the acquirer already held
+  const paidOut = closeLots(
+    { ...ledger, method: 'fifo', lots: { [acquirerId]: converted } },
+    acquirerId,
+    newShares - Math.floor(newShares),
+    acquirerPrice,
+    date
+  );
+  const kept = paidOut.lots[acquirerId] || [];
+  if (kept.length > 0) {
+    remainingLots[acquirerId] = [...(remainingLots[acquirerId] || []), ...kept].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  }
+
+  return { ...ledger, lots: remainingLots, realized: paidOut.realized };
+};
+
+export const getCostBasis = (ledger: Ledger, stockId: string): number => {
+  return (ledger.lots[stockId] || []).reduce((total, lot) => total + lot.price * lot.shares, 0);
+};
+
+export const getUnrealizedGain = (ledger: Ledger, stock: Stock): number => {
+  return (ledger.lots[stock.id] || []).reduce((total, lot) => total + (stock.price - lot.price) * lot.shares, 0);
+};
+
+// Across every stock, or just the one given
+export const getRealizedGain = (ledger: Ledger, stockId?: string): number => {
+  return ledger.realized
+    .filter(gain => !stockId || gain.stockId === stockId)
+    .reduce((total, gain) => total + gain.proceeds - gain.cost, 0);
+};
@@ -0,0 +1,51 @@
+import { Stock, MarketState, SimulationSettings } from './stockMarketSimulation';
+import { createInitialMarket, initializeStocks } from './marketEngine';
+import companiesData from '../data/companies-data.json';
+
+// Fixtures shared by the module tests: real companies from the data file, and markets
+// built the way a game opens one.
+
+export const testSettings: SimulationSettings = {
+  startYear: 1999,
+  startMonth: 10,
+  volatilityFactor: 1,
+  timeScale: 1,
+  crashRandomness: 0.7,
+};
+
+// The test game's first session
+export const TEST_DATE = createInitialMarket(testSettings).currentDate;
+
+// The company as a game lists it on `date`, with `fields` on top. A price given in
+// `fields` is the last bar's close too.
+export const createTestStock = (name: string, fields: Partial<Stock> = {}, date: string = TEST_DATE): Stock => {
+  const company = [...companiesData.notorious, ...companiesData.survivors].find(c => c.name === name);
+  if (!company) throw new Error(`No company named ${name} in the data file`);
+
+  const [stock] = initializeStocks([{
+    id: '',
+    name: company.name,
+    symbol: '',
+    description: company.description,
+    category: company.category,
+    price: company.initialPrice,
+    initialPrice: company.initialPrice,
+    peakPrice: company.peakPrice,
+    volatility: company.volatility as Stock['volatility'],
+    survivalChance: company.survivalChance as Stock['survivalChance'],
+    priceHistory: [],
+    news: [],
+  }], date);
+  const price = fields.price ?? stock.price;
+  return { ...stock, price, priceHistory: [{ date, price }], ...fields };
+};
+
+// The market as a game opens it, moved on to `date`
+export const createTestMarket = (date: string = TEST_DATE): MarketState => {
+  const market = createInitialMarket(testSettings);
+  return {
+    ...market,
+    currentDate: date,
+    marketIndexHistory: [{ date, price: market.marketIndex }],
+  };
+};
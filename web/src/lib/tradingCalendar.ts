@@ -0,0 +1,112 @@
+// NYSE/Nasdaq trading calendar for the simulated era (1997-2005).
+// Dates are 'YYYY-MM-DD' strings throughout, the same format as MarketState.currentDate.
+
+export interface MarketHours {
+  open: string;
+  close: string;
+}
+
+export const MARKET_OPEN = '09:30';
+export const MARKET_CLOSE = '16:00';
+const EARLY_CLOSE = '13:00';
+
+// Full-day closures, including the unscheduled ones after September 11, 2001
+// and the national day of mourning for President Reagan.
+const MARKET_HOLIDAYS = new Set<string>([
+  // 1997
+  '1997-01-01', '1997-02-17', '1997-03-28', '1997-05-26', '1997-07-04',
+  '1997-09-01', '1997-11-27', '1997-12-25',
+  // 1998 (first year Martin Luther King Jr. Day was observed)
+  '1998-01-01', '1998-01-19', '1998-02-16', '1998-04-10', '1998-05-25',
+  '1998-07-03', '1998-09-07', '1998-11-26', '1998-12-25',
+  // 1999
+  '1999-01-01', '1999-01-18', '1999-02-15', '1999-04-02', '1999-05-31',
+  '1999-07-05', '1999-09-06', '1999-11-25', '1999-12-24',
+  // 2000 (New Year's Day fell on a Saturday and was not observed)
+  '2000-01-17', '2000-02-21', '2000-04-21', '2000-05-29', '2000-07-04',
+  '2000-09-04', '2000-11-23', '2000-12-25',
+  // 2001
+  '2001-01-01', '2001-01-15', '2001-02-19', '2001-04-13', '2001-05-28',
+  '2001-07-04', '2001-09-03', '2001-09-11', '2001-09-12', '2001-09-13',
+  '2001-09-14', '2001-11-22', '2001-12-25',
+  // 2002
+  '2002-01-01', '2002-01-21', '2002-02-18', '2002-03-29', '2002-05-27',
+  '2002-07-04', '2002-09-02', '2002-11-28', '2002-12-25',
+  // 2003
+  '2003-01-01', '2003-01-20', '2003-02-17', '2003-04-18', '2003-05-26',
+  '2003-07-04', '2003-09-01', '2003-11-27', '2003-12-25',
+  // 2004
+  '2004-01-01', '2004-01-19', '2004-02-16', '2004-04-09', '2004-05-31',
+  '2004-06-11', '2004-07-05', '2004-09-06', '2004-11-25', '2004-12-24',
+  // 2005 (New Year's Day fell on a Saturday and was not observed)
+  '2005-01-17', '2005-02-21', '2005-03-25', '2005-05-30', '2005-07-04',
+  '2005-09-05', '2005-11-24', '2005-12-26',
+]);
+
+// Sessions that closed at 1:00 PM: the day after Thanksgiving and most Christmas and July 4th eves
+const EARLY_CLOSES = new Set<string>([
+  '1997-07-03', '1997-11-28', '1997-12-24',
+  '1998-11-27', '1998-12-24',
+  '1999-11-26',
+  '2000-07-03', '2000-11-24',
+  '2001-07-03', '2001-11-23', '2001-12-24',
+  '2002-07-05', '2002-11-29', '2002-12-24',
+  '2003-07-03', '2003-11-28', '2003-12-24', '2003-12-26',
+  '2004-11-26',
+  '2005-11-25',
+]);
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+export const isWeekend = (date: string): boolean => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+export const isMarketHoliday = (date: string): boolean => {
+  return MARKET_HOLIDAYS.has(date);
+};
+
+export const isTradingDay = (date: string): boolean => {
+  return !isWeekend(date) && !isMarketHoliday(date);
+};
+
+// Returns `date` itself when it is a trading day, otherwise the next session after it
+export const toTradingDay = (date: string): string => {
+  let current = date;
+  while (!isTradingDay(current)) {
+    current = shiftDate(current, 1);
+  }
+  return current;
+};
+
+export const nextTradingDay = (date: string): string => {
+  return toTradingDay(shiftDate(date, 1));
+};
+
+export const previousTradingDay = (date: string): string => {
+  let current = shiftDate(date, -1);
+  while (!isTradingDay(current)) {
+    current = shiftDate(current, -1);
+  }
+  return current;
+};
+
+export const addTradingDays = (date: string, sessions: number): string => {
+  let current = date;
+  for (let i = 0; i < sessions; i++) {
+    current = nextTradingDay(current);
+  }
+  return current;
+};
+
+export const getMarketHours = (date: string): MarketHours => {
+  return {
+    open: MARKET_OPEN,
+    close: EARLY_CLOSES.has(date) ? EARLY_CLOSE : MARKET_CLOSE,
+  };
+};
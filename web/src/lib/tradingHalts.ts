@@ -0,0 +1,142 @@
+import { Stock, MarketState, NewsItem, IntradayTick } from './stockMarketSimulation';
+import { toPriceBar } from './sessionBars';
+import { isTradable } from './companyLifecycle';
+
+// Trading halts. Exchange-wide circuit breakers follow NYSE Rule 80B as amended in
+// 1998: a fall of 10%, 20% or 30% from the previous close trips level 1, 2 or 3.
+// Here any level stops trading for the rest of the session, so the index and every
+// stock close where they stood when the breaker tripped. Single stocks are halted on
+// a violent move, or on a sharp one while news is out on the company. Either way the
+// player can't trade until the next session opens.
+
+export interface CircuitBreakerHalt {
+  date: string;
+  time: string;
+  level: number;
+  // Fall from the previous close when it tripped
+  decline: number;
+}
+
+export interface TradingHalt {
+  date: string;
+  time: string;
+  reason: 'news' | 'volatility';
+}
+
+const CIRCUIT_BREAKER_LEVELS = [0.1, 0.2, 0.3];
+// Move from the previous close that halts a stock outright, and with news pending
+const VOLATILITY_HALT_MOVE = 0.5;
+const NEWS_HALT_MOVE = 0.15;
+
+// Holds every tick after `time` at the price it had then
+const freezeTicks = (ticks: IntradayTick[], time: string): IntradayTick[] => {
+  const haltIndex = ticks.findIndex(tick => tick.time >= time);
+  if (haltIndex < 0) return ticks;
+  return ticks.map((tick, i) => i > haltIndex ? { ...tick, price: ticks[haltIndex].price } : tick);
+};
+
+// Stops the stock's session at `time`: later ticks, the close and the session bar
+// all take the price it was halted at
+const freezeStock = (stock: Stock, time: string): Stock => {
+  if (!stock.sessionTicks || stock.sessionTicks.length === 0) return stock;
+
+  const sessionTicks = freezeTicks(stock.sessionTicks, time);
+  const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+  return {
+    ...stock,
+    price: sessionTicks[sessionTicks.length - 1].price,
+    priceHistory: [
+      ...stock.priceHistory.slice(0, -1),
+      { ...lastBar, ...toPriceBar(lastBar.date, sessionTicks, lastBar.volume) },
+    ],
+    sessionTicks,
+  };
+};
+
+// Trips the deepest level the index has fallen through at the first tick it breaches
+// one, and freezes the index there for the rest of the session
+export const applyCircuitBreaker = (
+  date: string,
+  previousClose: number,
+  ticks: IntradayTick[]
+): { ticks: IntradayTick[]; halt?: CircuitBreakerHalt } => {
+  const tripped = ticks.find(tick => tick.price <= previousClose * (1 - CIRCUIT_BREAKER_LEVELS[0]));
+  if (!tripped) return { ticks };
+
+  const decline = 1 - tripped.price / previousClose;
+  const level = CIRCUIT_BREAKER_LEVELS.filter(threshold => decline >= threshold).length;
+  return {
+    ticks: freezeTicks(ticks, tripped.time),
+    halt: { date, time: tripped.time, level, decline },
+  };
+};
+
+export const createCircuitBreakerNews = (halt: CircuitBreakerHalt): NewsItem => ({
+  id: `circuit-breaker-${halt.date}`,
+  date: halt.date,
+  headline: `Circuit Breaker Halts Trading as Index Falls ${Math.round(halt.decline * 100)}%`,
+  content: `Trading was halted market-wide at ${halt.time} after the index fell through the level ${halt.level} circuit breaker, and will not resume until tomorrow's open.`,
+  // The fall itself is already in the prices
+  impact: 'neutral',
+});
+
+// Clears yesterday's halts and halts stocks on this step's moves. A market-wide halt
+// stops every stock at the time the breaker tripped. `stocks` must hold the step's
+// final session bars, and `news` the step's headlines.
+export const updateTradingHalts = (
+  stocks: Stock[],
+  market: MarketState,
+  news: NewsItem[]
+): { stocks: Stock[]; news: NewsItem[] } => {
+  const breaker = market.circuitBreaker?.date === market.currentDate ? market.circuitBreaker : undefined;
+  const haltNews: NewsItem[] = [];
+
+  const updatedStocks = stocks.map(stock => {
+    const cleared: Stock = stock.tradingHalt ? { ...stock, tradingHalt: undefined } : stock;
+    const previousBar = stock.priceHistory[stock.priceHistory.length - 2];
+    const lastBar = stock.priceHistory[stock.priceHistory.length - 1];
+    if (!isTradable(stock) || !stock.sessionTicks || !previousBar || lastBar.date !== market.currentDate) return cleared;
+
+    const hasNews = news.some(item => item.stockId === stock.id && item.impact !== 'neutral');
+    const limit = hasNews ? NEWS_HALT_MOVE : VOLATILITY_HALT_MOVE;
+    const spike = stock.sessionTicks.find(tick => Math.abs(tick.price / previousBar.price - 1) >= limit);
+    const haltTime = [spike?.time, breaker?.time].filter((time): time is string => time !== undefined).sort()[0];
+    if (!haltTime) return cleared;
+
+    const frozen = freezeStock(cleared, haltTime);
+    if (!spike || (breaker && breaker.time <= spike.time)) return frozen;
+
+    const halt: TradingHalt = { date: market.currentDate, time: spike.time, reason: hasNews ? 'news' : 'volatility' };
+    const item: NewsItem = {
+      id: `trading-halt-${stock.id}-${market.currentDate}`,
+      date: market.currentDate,
+      headline: `Trading in ${stock.name} Halted${hasNews ? ' Pending News' : ' on Extreme Volatility'}`,
+      content: `The exchange halted ${stock.symbol} at ${spike.time} after the shares moved ${Math.round((spike.price / previousBar.price - 1) * 100)}% from the previous close. Trading resumes at the next open.`,
+      impact: 'neutral',
+      stockId: stock.id,
+    };
+    haltNews.push(item);
+    return { ...frozen, tradingHalt: halt, news: [item, ...frozen.news] };
+  });
+
+  return { stocks: updatedStocks, news: haltNews };
+};
+
+// Why the player can't trade the stock right now, or null if they can. Halts take
+// effect from the time they were called, so in intraday mode trading continues up to it.
+export const getTradingHaltReason = (market: MarketState, stock: Stock): string | null => {
+  const isActive = (halt?: { date: string; time: string }) => (
+    halt !== undefined && halt.date === market.currentDate && halt.time <= market.currentTime
+  );
+
+  if (isActive(market.circuitBreaker)) {
+    return `Market-wide trading halt: level ${market.circuitBreaker!.level} circuit breaker tripped at ${market.circuitBreaker!.time}`;
+  }
+  if (isActive(stock.tradingHalt)) {
+    return stock.tradingHalt!.reason === 'news'
+      ? `${stock.symbol} is halted pending news since ${stock.tradingHalt!.time}`
+      : `${stock.symbol} is halted for extreme volatility since ${stock.tradingHalt!.time}`;
+  }
+  if (!isTradable(stock)) return `${stock.symbol} is not trading`;
+  return null;
+};
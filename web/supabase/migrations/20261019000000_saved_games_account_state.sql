@@ -0,0 +1,10 @@
+-- Saves keep the whole player account, the scoring history and where the simulation
+-- stood, so a loaded game carries on exactly where it was saved. Every column is
+-- nullable: rows saved before these existed still load, from their portfolio and cash.
+alter table public.saved_games
+  add column if not exists account jsonb,
+  add column if not exists valuations jsonb,
+  add column if not exists result jsonb,
+  add column if not exists rng_state bigint,
+  add column if not exists crash_events jsonb,
+  add column if not exists session jsonb;